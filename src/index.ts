@@ -9,19 +9,56 @@ export {
   ContextCallback,
   ContextRequestEvent as ContextEvent,
 } from './lib/context-request-event.js';
+export {ContextUpdateRequestEvent} from './lib/context-update-request-event.js';
 
 export {
   Context,
   ContextKey,
+  ContextOptions,
   ContextType,
   createContext,
 } from './lib/create-context.js';
 
-export {ContextConsumer} from './lib/controllers/context-consumer.js';
+export {
+  ConsumerStatus,
+  ContextConsumer,
+} from './lib/controllers/context-consumer.js';
 export {ContextProvider} from './lib/controllers/context-provider.js';
-export {ContextRoot} from './lib/context-root.js';
+export {
+  ContextValues,
+  DerivedContextProvider,
+} from './lib/controllers/derived-context-provider.js';
+export {
+  Dispatch,
+  Middleware,
+  MiddlewareAPI,
+  Reducer,
+  StoreProvider,
+} from './lib/controllers/store-provider.js';
+export {
+  ContextRoot,
+  ContextRootOptions,
+  PendingRequestInfo,
+} from './lib/context-root.js';
+export {definePortal} from './lib/context-portal.js';
+export {BatchMode} from './lib/value-notifier.js';
+export {
+  ContextErrorHandler,
+  setContextErrorHandler,
+} from './lib/error-handler.js';
+export {
+  addContextInterceptor,
+  ValueInterceptor,
+  VETO,
+} from './lib/interceptors.js';
+export {deepEqual, EqualityFunction, shallowEqual} from './lib/equality.js';
 
-// export {provide} from './lib/decorators/provide.js';
-// export {consume} from './lib/decorators/consume.js';
+export {provide} from './lib/decorators/provide.js';
+export {consume} from './lib/decorators/consume.js';
 
-export {defineConsumer, defineProvider} from './lib/helpers.js';
+export {
+  ContextHandle,
+  defineConsumer,
+  defineDerivedProvider,
+  defineProvider,
+} from './lib/helpers.js';
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+const logicalParents = new WeakMap<Node, Node>();
+
+/**
+ * Set the logical parent of a node; it replaces the DOM parent when walking
+ * up the composed tree.
+ *
+ * @param node Node to attach
+ * @param parent Logical parent; `undefined` to restore the DOM parent
+ */
+export function setLogicalParent(node: Node, parent?: Node): void {
+  if (parent === undefined) {
+    logicalParents.delete(node);
+  } else {
+    logicalParents.set(node, parent);
+  }
+}
+
+function getParent(node: Node): Node | null {
+  return (
+    logicalParents.get(node) ??
+    // Follow the event path: a slotted node bubbles through its slot.
+    (node as Element).assignedSlot ??
+    (node instanceof ShadowRoot ? node.host : node.parentNode)
+  );
+}
+
+/**
+ * Test if a node is a descendant of an element in the composed tree;
+ * i.e. going through the assigned slots, the shadow roots up to their host
+ * and the logical parents.
+ *
+ * @param node Node to test
+ * @param ancestor Potential ancestor
+ * @returns Whether the node is a strict descendant of the ancestor
+ */
+export function isComposedDescendant(node: Node, ancestor: Node): boolean {
+  const visited = new Set<Node>();
+  let parent = getParent(node);
+  // Guard against logical parent cycles
+  while (parent !== null && !visited.has(parent)) {
+    if (parent === ancestor) {
+      return true;
+    }
+    visited.add(parent);
+    parent = getParent(parent);
+  }
+  return false;
+}
@@ -0,0 +1,275 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+/**
+ * Callbacks called when an element connection to the DOM changes
+ */
+export interface ConnectionCallbacks {
+  hostConnected(): void;
+  hostDisconnected(): void;
+}
+
+interface HostTracking {
+  ref: WeakRef<HTMLElement>;
+  isConnected: boolean;
+  callbacks: Set<ConnectionCallbacks>;
+  roots: Set<Node>;
+}
+
+interface RootObserver {
+  observer: MutationObserver;
+  // The elements must be stored in WeakRefs because the callbacks most
+  // likely have a strong ref to their element.
+  hosts: Set<WeakRef<HTMLElement>>;
+  // Shadow root observed to catch the insertion of detached elements; it is
+  // observed as long as detached elements are tracked.
+  discovered: boolean;
+}
+
+const trackedHosts = new WeakMap<HTMLElement, HostTracking>();
+const rootObservers = new WeakMap<Node, RootObserver>();
+// Elements not connected; they may be inserted in any shadow root.
+const detachedHosts = new Set<WeakRef<HTMLElement>>();
+// Documents whose open shadow roots are all observed
+let scannedDocuments = new WeakSet<Document>();
+const discoveredRoots = new Set<WeakRef<ShadowRoot>>();
+
+/**
+ * Track the connection of a standard HTMLElement to the DOM.
+ *
+ * The callbacks are called immediately if the element is already connected.
+ *
+ * A single MutationObserver is shared by all elements within the same root
+ * node (document or shadow root). A connected element is tracked in all the
+ * roots of its composed tree to detect the removal of any of its ancestors.
+ *
+ * ### Note
+ * The MutationObserver notification arrives after the children elements
+ * handle their connection.
+ *
+ * To notice the insertion of a disconnected element in a shadow root, all
+ * open shadow roots of its document are observed as long as disconnected
+ * elements are tracked; closed shadow roots and shadow roots attached to a
+ * connected element are not discovered.
+ *
+ * @param host Element to track
+ * @param callbacks Connection callbacks
+ * @returns A function to stop tracking the element
+ */
+export function trackConnection(
+  host: HTMLElement,
+  callbacks: ConnectionCallbacks
+): () => void {
+  let tracking = trackedHosts.get(host);
+  if (tracking === undefined) {
+    tracking = {
+      ref: new WeakRef(host),
+      isConnected: host.isConnected,
+      callbacks: new Set(),
+      roots: new Set(),
+    };
+    trackedHosts.set(host, tracking);
+    observeRoots(host, tracking);
+    if (!tracking.isConnected) {
+      addDetachedHost(host, tracking);
+    }
+  } else {
+    // Catch up with the pending mutations
+    updateConnection(host, tracking);
+  }
+  tracking.callbacks.add(callbacks);
+
+  if (tracking.isConnected) {
+    callbacks.hostConnected();
+  }
+
+  return () => {
+    const tracking = trackedHosts.get(host);
+    if (tracking === undefined || !tracking.callbacks.delete(callbacks)) {
+      return;
+    }
+    if (tracking.callbacks.size === 0) {
+      trackedHosts.delete(host);
+      removeDetachedHost(tracking.ref);
+      for (const root of tracking.roots) {
+        unobserveRoot(root, tracking);
+      }
+      tracking.roots.clear();
+    }
+  };
+}
+
+function getRoots(host: HTMLElement): Set<Node> {
+  const roots = new Set<Node>([host.ownerDocument]);
+  if (host.isConnected) {
+    let root = host.getRootNode();
+    roots.add(root);
+    while (root instanceof ShadowRoot) {
+      root = root.host.getRootNode();
+      roots.add(root);
+    }
+  }
+  return roots;
+}
+
+function observeRoots(host: HTMLElement, tracking: HostTracking): void {
+  const roots = getRoots(host);
+  if (tracking.isConnected) {
+    // Stop observing the roots the element is not part of anymore
+    for (const root of tracking.roots) {
+      if (!roots.has(root)) {
+        unobserveRoot(root, tracking);
+        tracking.roots.delete(root);
+      }
+    }
+  }
+
+  for (const root of roots) {
+    if (!tracking.roots.has(root)) {
+      observeRoot(root, tracking);
+      tracking.roots.add(root);
+    }
+  }
+}
+
+function getRootObserver(root: Node): RootObserver {
+  let rootObserver = rootObservers.get(root);
+  if (rootObserver === undefined) {
+    const hosts = new Set<WeakRef<HTMLElement>>();
+    const observer = new MutationObserver((records) => {
+      const document = root.ownerDocument ?? (root as Document);
+      if (scannedDocuments.has(document)) {
+        for (const record of records) {
+          for (const node of record.addedNodes) {
+            discoverShadowRoots(node);
+          }
+        }
+      }
+      for (const refs of [hosts, detachedHosts]) {
+        for (const ref of refs) {
+          const host = ref.deref();
+          const tracking = host && trackedHosts.get(host);
+          if (host === undefined || tracking === undefined) {
+            // The element was GC'ed.
+            if (refs === detachedHosts) {
+              removeDetachedHost(ref);
+            } else {
+              refs.delete(ref);
+            }
+          } else {
+            updateConnection(host, tracking);
+          }
+        }
+      }
+      releaseRoot(root);
+    });
+    observer.observe(root, {childList: true, subtree: true});
+    rootObservers.set(
+      root,
+      (rootObserver = {observer, hosts, discovered: false})
+    );
+  }
+  return rootObserver;
+}
+
+function observeRoot(root: Node, tracking: HostTracking): void {
+  getRootObserver(root).hosts.add(tracking.ref);
+}
+
+function unobserveRoot(root: Node, tracking: HostTracking): void {
+  const rootObserver = rootObservers.get(root);
+  if (rootObserver === undefined) {
+    return;
+  }
+  rootObserver.hosts.delete(tracking.ref);
+  releaseRoot(root);
+}
+
+function releaseRoot(root: Node): void {
+  const rootObserver = rootObservers.get(root);
+  if (
+    rootObserver === undefined ||
+    rootObserver.hosts.size > 0 ||
+    rootObserver.discovered
+  ) {
+    return;
+  }
+  rootObserver.observer.disconnect();
+  rootObservers.delete(root);
+  if (root instanceof Document) {
+    // The new shadow roots are not discovered anymore.
+    scannedDocuments.delete(root);
+  }
+}
+
+function addDetachedHost(host: HTMLElement, tracking: HostTracking): void {
+  detachedHosts.add(tracking.ref);
+  const document = host.ownerDocument;
+  if (!scannedDocuments.has(document)) {
+    scannedDocuments.add(document);
+    discoverShadowRoots(document);
+  }
+}
+
+function removeDetachedHost(ref: WeakRef<HTMLElement>): void {
+  if (!detachedHosts.delete(ref) || detachedHosts.size > 0) {
+    return;
+  }
+  // No element may be inserted in a shadow root anymore.
+  scannedDocuments = new WeakSet();
+  for (const rootRef of discoveredRoots) {
+    const root = rootRef.deref();
+    const rootObserver = root && rootObservers.get(root);
+    if (root !== undefined && rootObserver !== undefined) {
+      rootObserver.discovered = false;
+      releaseRoot(root);
+    }
+  }
+  discoveredRoots.clear();
+}
+
+/**
+ * Observe the open shadow roots within a node composed tree.
+ */
+function discoverShadowRoots(node: Node): void {
+  const walker = (node.ownerDocument ?? (node as Document)).createTreeWalker(
+    node,
+    NodeFilter.SHOW_ELEMENT
+  );
+  for (
+    let current: Node | null = walker.currentNode;
+    current !== null;
+    current = walker.nextNode()
+  ) {
+    // The walker root may be a document or a shadow root
+    const shadowRoot = current instanceof Element ? current.shadowRoot : null;
+    if (shadowRoot !== null && !rootObservers.get(shadowRoot)?.discovered) {
+      getRootObserver(shadowRoot).discovered = true;
+      discoveredRoots.add(new WeakRef(shadowRoot));
+      discoverShadowRoots(shadowRoot);
+    }
+  }
+}
+
+function updateConnection(host: HTMLElement, tracking: HostTracking): void {
+  if (host.isConnected === tracking.isConnected) {
+    return;
+  }
+  tracking.isConnected = host.isConnected;
+  observeRoots(host, tracking);
+  if (tracking.isConnected) {
+    removeDetachedHost(tracking.ref);
+  } else {
+    addDetachedHost(host, tracking);
+  }
+  for (const callbacks of [...tracking.callbacks]) {
+    if (tracking.isConnected) {
+      callbacks.hostConnected();
+    } else {
+      callbacks.hostDisconnected();
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+/**
+ * Map from context keys to values.
+ *
+ * The object keys are held weakly so that the data of a context created per
+ * element (e.g. `createContext({})`) are released with it. The primitive
+ * keys (strings, symbols...) cannot be held weakly.
+ */
+export class ContextMap<V> {
+  private readonly objects = new WeakMap<object, V>();
+  private readonly primitives = new Map<unknown, V>();
+
+  get(key: unknown): V | undefined {
+    return isObject(key) ? this.objects.get(key) : this.primitives.get(key);
+  }
+
+  set(key: unknown, value: V): void {
+    if (isObject(key)) {
+      this.objects.set(key, value);
+    } else {
+      this.primitives.set(key, value);
+    }
+  }
+
+  delete(key: unknown): void {
+    if (isObject(key)) {
+      this.objects.delete(key);
+    } else {
+      this.primitives.delete(key);
+    }
+  }
+}
+
+function isObject(key: unknown): key is object {
+  return (typeof key === 'object' && key !== null) || typeof key === 'function';
+}
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ContextRequestEvent} from './context-request-event.js';
+import {ContextUpdateRequestEvent} from './context-update-request-event.js';
+import {ContextProviderEvent} from './controllers/context-provider.js';
+import {setLogicalParent} from './composed-tree.js';
+import {Context} from './create-context.js';
+
+/**
+ * Declare an element as the logical child of an owner element.
+ *
+ * The context requests, update requests and provider announcements bubbling
+ * out of the portal are re-dispatched from the owner; i.e. they are resolved
+ * against the owner providers as if the portal was rendered within the owner.
+ * This is useful for overlays (dialogs, tooltips, menus...) moved to
+ * `document.body`.
+ *
+ * ### Note
+ * The owner is also used as parent of the portal to determine which
+ * subscriptions are re-parented when a provider is added or removed.
+ *
+ * @param portal Element rendered outside its owner
+ * @param owner Element owning the portal
+ * @returns Function to remove the portal link
+ */
+export function definePortal(
+  portal: HTMLElement,
+  owner: HTMLElement
+): () => void {
+  const onContextRequest = (
+    ev: ContextRequestEvent<Context<unknown, unknown>>
+  ): void => {
+    ev.stopPropagation();
+    owner.dispatchEvent(
+      new ContextRequestEvent(
+        ev.context,
+        ev.callback,
+        ev.subscribe,
+        ev.contextTarget ?? (ev.composedPath()[0] as Element)
+      )
+    );
+  };
+
+  const onContextUpdateRequest = (
+    ev: ContextUpdateRequestEvent<Context<unknown, unknown>>
+  ): void => {
+    ev.stopPropagation();
+    const accepted = !owner.dispatchEvent(
+      new ContextUpdateRequestEvent(
+        ev.context,
+        ev.value,
+        ev.contextTarget ?? (ev.composedPath()[0] as Element)
+      )
+    );
+    if (accepted) {
+      ev.preventDefault();
+    }
+  };
+
+  // Let the owner providers re-parent the subscriptions of the portal
+  // consumers to a provider added within the portal.
+  const onContextProvider = (
+    ev: ContextProviderEvent<Context<unknown, unknown>>
+  ): void => {
+    ev.stopPropagation();
+    owner.dispatchEvent(
+      new ContextProviderEvent(
+        ev.context,
+        ev.contextTarget ?? (ev.composedPath()[0] as Element)
+      )
+    );
+  };
+
+  portal.addEventListener('context-request', onContextRequest);
+  portal.addEventListener('context-update-request', onContextUpdateRequest);
+  portal.addEventListener('context-provider', onContextProvider);
+  setLogicalParent(portal, owner);
+
+  return () => {
+    portal.removeEventListener('context-request', onContextRequest);
+    portal.removeEventListener(
+      'context-update-request',
+      onContextUpdateRequest
+    );
+    portal.removeEventListener('context-provider', onContextProvider);
+    setLogicalParent(portal);
+  };
+}
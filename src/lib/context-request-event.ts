@@ -20,10 +20,14 @@ declare global {
 /**
  * A callback which is provided by a context requester and is called with the value satisfying the request.
  * This callback can be called multiple times by context providers as the requested value is changed.
+ *
+ * The `providerHost` argument is not part of the protocol; it is set by the providers of this package
+ * with the element hosting them.
  */
 export type ContextCallback<ValueType> = (
   value: ValueType,
-  unsubscribe?: () => void
+  unsubscribe?: () => void,
+  providerHost?: Element
 ) => void;
 
 /**
@@ -33,6 +37,7 @@ export interface ContextRequest<C extends Context<unknown, unknown>> {
   readonly context: C;
   readonly callback: ContextCallback<ContextType<C>>;
   readonly subscribe?: boolean;
+  readonly contextTarget?: Element;
 }
 
 /**
@@ -55,21 +60,26 @@ export class ContextRequestEvent<C extends Context<unknown, unknown>>
   readonly context: C;
   readonly callback: ContextCallback<ContextType<C>>;
   readonly subscribe: boolean;
+  readonly contextTarget?: Element;
 
   /**
    *
    * @param context the context key to request
    * @param callback the callback that should be invoked when the context with the specified key is available
    * @param subscribe when, true indicates we want to subscribe to future updates
+   * @param contextTarget the element that originally made the request; to be set when the request is
+   *   re-dispatched from another element
    */
   constructor(
     context: C,
     callback: ContextCallback<ContextType<C>>,
-    subscribe?: boolean
+    subscribe?: boolean,
+    contextTarget?: Element
   ) {
     super('context-request', {bubbles: true, composed: true});
     this.context = context;
     this.callback = callback;
     this.subscribe = subscribe ?? false;
+    this.contextTarget = contextTarget;
   }
 }
@@ -5,9 +5,61 @@
  * SPDX-License-Identifier: BSD-3-Clause
  */
 
-import {Context} from './create-context.js';
+import {Context, getContextOptions} from './create-context.js';
 import {ContextCallback, ContextRequestEvent} from './context-request-event.js';
 import {ContextProviderEvent} from './controllers/context-provider.js';
+import {isComposedDescendant} from './composed-tree.js';
+
+interface PendingRequest {
+  elementRef: WeakRef<HTMLElement>;
+  callbackRef: WeakRef<ContextCallback<unknown>>;
+  subscribe: boolean;
+  // Time of the first request; it is kept when the request is re-dispatched
+  requestedAt: number;
+  timedOut: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Information on an unsatisfied context request
+ */
+export interface PendingRequestInfo {
+  /**
+   * The requested context
+   */
+  context: Context<unknown, unknown>;
+  /**
+   * The context name; default to the context key as string
+   */
+  name: string;
+  /**
+   * The requesting element
+   */
+  element: HTMLElement;
+  /**
+   * Time elapsed since the first request in milliseconds
+   */
+  waitingTime: number;
+}
+
+export interface ContextRootOptions {
+  /**
+   * Time in milliseconds after which `onTimeout` is called for a request
+   * still unsatisfied.
+   */
+  timeout?: number;
+  /**
+   * Callback called once per unsatisfied request after `timeout`
+   */
+  onTimeout?: (request: PendingRequestInfo) => void;
+  /**
+   * Buffer the one-shot requests (i.e. not subscribing to updates) too; they
+   * are satisfied once when a provider appears.
+   *
+   * Default is false.
+   */
+  bufferOneShotRequests?: boolean;
+}
 
 /**
  * A ContextRoot can be used to gather unsatisfied context requests and
@@ -16,6 +68,9 @@ import {ContextProviderEvent} from './controllers/context-provider.js';
  *
  * This allows providers to be added to a DOM tree, or upgraded, after the
  * consumers.
+ *
+ * Only the requests dispatched within the composed tree of a new provider
+ * are re-dispatched; the others stay pending.
  */
 export class ContextRoot {
   private pendingContextRequests = new Map<
@@ -29,13 +84,65 @@ export class ContextRoot {
       // replay context events for
       // Both the element and callback must be stored in WeakRefs because the
       // callback most likely has a strong ref to the element.
-      requests: Array<{
-        elementRef: WeakRef<HTMLElement>;
-        callbackRef: WeakRef<ContextCallback<unknown>>;
-      }>;
+      requests: Array<PendingRequest>;
     }
   >();
 
+  // Prune the requests of GC'ed elements or callbacks; otherwise they would
+  // accumulate for contexts that are never provided.
+  private finalizationRegistry = new FinalizationRegistry<{
+    context: Context<unknown, unknown>;
+    request: PendingRequest;
+  }>(({context, request}) => {
+    this.forget(request);
+    const pendingRequestData = this.pendingContextRequests.get(context);
+    if (pendingRequestData === undefined) {
+      return;
+    }
+    pendingRequestData.requests = pendingRequestData.requests.filter(
+      (pending) => pending !== request
+    );
+    if (pendingRequestData.requests.length === 0) {
+      this.pendingContextRequests.delete(context);
+    }
+  });
+
+  // Request being re-dispatched
+  private redispatched?: PendingRequest;
+
+  private readonly timeout?: number;
+  private readonly onTimeout?: (request: PendingRequestInfo) => void;
+  private readonly bufferOneShotRequests: boolean;
+
+  constructor(options: ContextRootOptions = {}) {
+    this.timeout = options.timeout;
+    this.onTimeout = options.onTimeout;
+    this.bufferOneShotRequests = options.bufferOneShotRequests ?? false;
+  }
+
+  /**
+   * List the unsatisfied context requests.
+   *
+   * ### Note
+   * The requests of the elements removed from the DOM are not listed; they
+   * are dropped once the elements are garbage collected.
+   *
+   * @returns The pending requests
+   */
+  getPendingRequests(): PendingRequestInfo[] {
+    const now = performance.now();
+    const pendingRequests: PendingRequestInfo[] = [];
+    for (const [context, {requests}] of this.pendingContextRequests) {
+      for (const request of requests) {
+        const element = request.elementRef.deref();
+        if (element?.isConnected) {
+          pendingRequests.push(this.getInfo(context, request, element, now));
+        }
+      }
+    }
+    return pendingRequests;
+  }
+
   /**
    * Attach the ContextRoot to a given element to intercept `context-request` and
    * `context-provider` events.
@@ -66,23 +173,46 @@ export class ContextRoot {
       return;
     }
 
-    // Clear our list. Any still unsatisfied requests will re-add themselves
-    // when we dispatch the events below.
-    this.pendingContextRequests.delete(event.context);
-
-    // Loop over all pending requests and re-dispatch them from their source
-    const {requests} = pendingRequestData;
-    for (const {elementRef, callbackRef} of requests) {
-      const element = elementRef.deref();
-      const callback = callbackRef.deref();
+    // Only the requests within the provider subtree may be satisfied by it.
+    const providerHost =
+      event.contextTarget ?? (event.composedPath()[0] as Node);
+    const {callbacks, requests} = pendingRequestData;
+    const dispatched: PendingRequest[] = [];
+    pendingRequestData.requests = [];
+    for (const request of requests) {
+      const element = request.elementRef.deref();
+      const callback = request.callbackRef.deref();
 
       if (element === undefined || callback === undefined) {
         // The element was GC'ed. Do nothing.
+        this.forget(request);
+      } else if (isComposedDescendant(element, providerHost)) {
+        // Any still unsatisfied request will re-add itself when we
+        // dispatch the event below.
+        this.forget(request);
+        callbacks.get(element)?.delete(callback);
+        dispatched.push(request);
       } else {
-        // Re-dispatch if we still have the element and callback
-        element.dispatchEvent(
-          new ContextRequestEvent(event.context, callback, true)
-        );
+        pendingRequestData.requests.push(request);
+      }
+    }
+    if (pendingRequestData.requests.length === 0) {
+      this.pendingContextRequests.delete(event.context);
+    }
+
+    // Re-dispatch the requests from their source
+    for (const request of dispatched) {
+      const element = request.elementRef.deref();
+      const callback = request.callbackRef.deref();
+      if (element !== undefined && callback !== undefined) {
+        this.redispatched = request;
+        try {
+          element.dispatchEvent(
+            new ContextRequestEvent(event.context, callback, request.subscribe)
+          );
+        } finally {
+          this.redispatched = undefined;
+        }
       }
     }
   };
@@ -90,15 +220,17 @@ export class ContextRoot {
   private onContextRequest = (
     event: ContextRequestEvent<Context<unknown, unknown>>
   ) => {
-    // Events that are not subscribing should not be buffered
-    if (event.subscribe !== true) {
+    // Events that are not subscribing should not be buffered unless
+    // requested
+    if (event.subscribe !== true && !this.bufferOneShotRequests) {
       return;
     }
 
     // Note, it's important to use the initial target via composedPath()
     // since that's the requesting element and the event may be re-targeted
     // to an outer host element.
-    const element = event.composedPath()[0] as HTMLElement;
+    const element = (event.contextTarget ??
+      event.composedPath()[0]) as HTMLElement;
     const callback = event.callback;
 
     let pendingContextRequests = this.pendingContextRequests.get(event.context);
@@ -126,9 +258,71 @@ export class ContextRoot {
     }
 
     callbacks.add(callback);
-    pendingContextRequests.requests.push({
+    const previous =
+      this.redispatched?.callbackRef.deref() === callback
+        ? this.redispatched
+        : undefined;
+    const request: PendingRequest = {
       elementRef: new WeakRef(element),
       callbackRef: new WeakRef(callback),
-    });
+      subscribe: event.subscribe,
+      requestedAt: previous?.requestedAt ?? performance.now(),
+      timedOut: previous?.timedOut ?? false,
+    };
+    pendingContextRequests.requests.push(request);
+    const held = {context: event.context, request};
+    this.finalizationRegistry.register(element, held, request);
+    this.finalizationRegistry.register(callback, held, request);
+    this.startTimer(event.context, request);
   };
+
+  private startTimer(
+    context: Context<unknown, unknown>,
+    request: PendingRequest
+  ): void {
+    if (
+      this.timeout === undefined ||
+      this.onTimeout === undefined ||
+      request.timedOut
+    ) {
+      return;
+    }
+    const delay = Math.max(
+      0,
+      this.timeout - (performance.now() - request.requestedAt)
+    );
+    request.timer = setTimeout(() => {
+      request.timer = undefined;
+      request.timedOut = true;
+      const element = request.elementRef.deref();
+      // Removed elements are not waiting for a value anymore.
+      if (element?.isConnected) {
+        this.onTimeout!(
+          this.getInfo(context, request, element, performance.now())
+        );
+      }
+    }, delay);
+  }
+
+  private forget(request: PendingRequest): void {
+    this.finalizationRegistry.unregister(request);
+    if (request.timer !== undefined) {
+      clearTimeout(request.timer);
+      request.timer = undefined;
+    }
+  }
+
+  private getInfo(
+    context: Context<unknown, unknown>,
+    request: PendingRequest,
+    element: HTMLElement,
+    now: number
+  ): PendingRequestInfo {
+    return {
+      context,
+      name: getContextOptions(context)?.name ?? String(context),
+      element,
+      waitingTime: now - request.requestedAt,
+    };
+  }
 }
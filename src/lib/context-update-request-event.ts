@@ -0,0 +1,52 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ContextType, Context} from './create-context.js';
+
+declare global {
+  interface HTMLElementEventMap {
+    /**
+     * A 'context-update-request' event can be emitted by any element which
+     * desires to change the value of a context provided by an external provider.
+     */
+    'context-update-request': ContextUpdateRequestEvent<
+      Context<unknown, unknown>
+    >;
+  }
+}
+
+/**
+ * An event fired by a context consumer to ask the closest provider of the
+ * context to change its value.
+ *
+ * The provider accepting the update cancels the event; i.e. `dispatchEvent`
+ * returns `false` if the value was updated.
+ */
+export class ContextUpdateRequestEvent<
+  C extends Context<unknown, unknown>
+> extends Event {
+  readonly context: C;
+  readonly value: ContextType<C>;
+  readonly contextTarget?: Element;
+
+  /**
+   *
+   * @param context the context key to update
+   * @param value the requested value
+   * @param contextTarget the element that originally made the request; to be set when the request is
+   *   re-dispatched from another element
+   */
+  constructor(context: C, value: ContextType<C>, contextTarget?: Element) {
+    super('context-update-request', {
+      bubbles: true,
+      composed: true,
+      cancelable: true,
+    });
+    this.context = context;
+    this.value = value;
+    this.contextTarget = contextTarget;
+  }
+}
@@ -5,18 +5,55 @@
  * SPDX-License-Identifier: BSD-3-Clause
  */
 
-import type {Behavior, FASTElement} from '@microsoft/fast-element';
+import type {Behavior} from '@microsoft/fast-element';
 import {observable} from '@microsoft/fast-element';
 import {
   ContextCallback,
   ContextRequestEvent,
 } from '../context-request-event.js';
-import type {Context, ContextType} from '../create-context.js';
+import {ContextUpdateRequestEvent} from '../context-update-request-event.js';
+import {trackConnection} from '../connection-tracker.js';
+import type {ContextOrphanedEvent} from './context-provider.js';
+import {
+  checkContextValue,
+  getContextOptions,
+  type Context,
+  type ContextType,
+} from '../create-context.js';
+import {reportContextError} from '../error-handler.js';
+
+/**
+ * Status of a context consumer
+ *
+ * - `pending`: the context has not been provided yet.
+ * - `provided`: a provider has set the context value.
+ * - `orphaned`: the provider is gone and no other provider took over.
+ */
+export type ConsumerStatus = 'pending' | 'provided' | 'orphaned';
 
-export interface Options<C extends Context<unknown, unknown>> {
+export interface Options<
+  C extends Context<unknown, unknown>,
+  Selected = ContextType<C>
+> {
   context: C;
-  callback?: (value: ContextType<C>, dispose?: () => void) => void;
+  callback?: (value: Selected, dispose?: () => void) => void;
   subscribe?: boolean;
+  /**
+   * Select the slice of the context value to consume
+   */
+  select?: (value: ContextType<C>) => Selected;
+  /**
+   * Compare two selected values; the consumer is not updated if they are equal.
+   *
+   * Default to `Object.is` if `select` is set.
+   */
+  equals?: (a: Selected, b: Selected) => boolean;
+  /**
+   * Check the provided values with the context `validate` guard; e.g. for
+   * values set by foreign providers. Invalid values are ignored and reported
+   * to the handler set with {@link setContextErrorHandler}.
+   */
+  validate?: boolean;
 }
 
 /**
@@ -30,30 +67,196 @@ export interface Options<C extends Context<unknown, unknown>> {
  *
  * It will also call the dispose method given by the provider when the
  * host element is disconnected.
+ *
+ * If its provider is disconnected, the value is reset and the context is
+ * requested again to the next provider up the tree. If neither a provider
+ * nor a default value answers, the callback is called with `undefined`;
+ * {@link ContextConsumer.whenProvided} and {@link ContextConsumer.values}
+ * only get the provided values.
+ *
+ * If no provider answers the request, the consumer falls back to the context
+ * `defaultValue` given to {@link createContext}; the status stays unchanged
+ * until a provider answers.
+ *
+ * The observable `status` and `providerHost` tell whether and by which element
+ * the context is provided; e.g. to render a fallback in a template.
+ *
+ * The controller may also be attached to any HTML element, like a vanilla
+ * or a Lit custom element.
+ *
+ * ### Note
+ * If the element is not a FASTElement, its connection to the DOM is tracked
+ * by the same means as for the {@link ContextProvider}. Call
+ * {@link ContextConsumer.dispose} to stop tracking the element.
  */
 export class ContextConsumer<
   C extends Context<unknown, unknown>,
-  HostElement extends FASTElement = FASTElement
+  HostElement extends HTMLElement = HTMLElement,
+  Selected = ContextType<C>
 > implements Behavior
 {
   protected host: HostElement | null = null;
   private context: C;
-  private callback?: (value: ContextType<C>, dispose?: () => void) => void;
+  private callback?: (value: Selected, dispose?: () => void) => void;
+  private select?: (value: ContextType<C>) => Selected;
+  private equals?: (a: Selected, b: Selected) => boolean;
   private subscribe = false;
+  private validate = false;
 
   private provided = false;
+  private answered = false;
+
+  private untrackConnection?: () => void;
+
+  private listeners = new Set<(value: Selected) => void>();
+
+  @observable value?: Selected = undefined;
+
+  /**
+   * Status of the context request
+   */
+  @observable status: ConsumerStatus = 'pending';
 
-  @observable value?: ContextType<C> = undefined;
+  /**
+   * Element hosting the provider of the current value
+   *
+   * It is `null` if the context is not provided or if the provider does not
+   * tell its host.
+   */
+  @observable providerHost: Element | null = null;
 
-  constructor(el: HostElement, options: Options<C>) {
+  constructor(el: HostElement, options: Options<C, Selected>) {
     this.host = el;
     // This is a potentially fragile duck-type. It means a context object can't
     // have a property name context and be used in positional argument form.
     this.context = options.context;
     this.callback = options.callback;
     this.subscribe = options.subscribe ?? false;
+    this.validate = options.validate ?? false;
+    this.select = options.select;
+    this.equals =
+      options.equals ?? (options.select !== undefined ? Object.is : undefined);
+
+    this.host.addEventListener('context-orphaned', this.onOrphaned);
+
+    // @ts-expect-error in case of a FASTElement
+    if (this.host.$fastController) {
+      // @ts-expect-error in case of a FASTElement
+      this.host.$fastController.addBehaviors([this]);
+    } else {
+      this.untrackConnection = trackConnection(this.host, this);
+    }
+  }
+
+  /**
+   * Detach the consumer from its host.
+   *
+   * It stops tracking the host connection and behaves as if the host was
+   * disconnected.
+   */
+  dispose(): void {
+    // @ts-expect-error in case of a FASTElement
+    if (this.host?.$fastController) {
+      // @ts-expect-error in case of a FASTElement
+      this.host.$fastController.removeBehaviors([this], true);
+    } else {
+      this.untrackConnection?.();
+      this.untrackConnection = undefined;
+    }
+    this.host?.removeEventListener('context-orphaned', this.onOrphaned);
+    this.hostDisconnected();
+  }
+
+  /**
+   * Wait for the context value.
+   *
+   * The promise resolves immediately if the context is already provided.
+   *
+   * @example
+   * ```ts
+   * const logger = await consumer.whenProvided(AbortSignal.timeout(1000));
+   * ```
+   *
+   * @param signal Signal to stop waiting; the promise is rejected with its reason
+   * @returns The first provided value
+   */
+  whenProvided(signal?: AbortSignal): Promise<Selected> {
+    if (this.status === 'provided') {
+      return Promise.resolve(this.value as Selected);
+    }
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        this.listeners.delete(listener);
+        reject(signal!.reason);
+      };
+      const listener = (value: Selected) => {
+        this.listeners.delete(listener);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(value);
+      };
+      this.listeners.add(listener);
+      signal?.addEventListener('abort', onAbort, {once: true});
+    });
+  }
+
+  /**
+   * Iterate over the context values.
+   *
+   * It yields the current value if the context is provided then each
+   * update; the consumer must subscribe to get more than one value. Nothing
+   * is yielded while the consumer is orphaned.
+   *
+   * @example
+   * ```ts
+   * for await (const logger of consumer.values()) {
+   *   logger.log('new logger');
+   * }
+   * ```
+   */
+  async *values(): AsyncGenerator<Selected, void, undefined> {
+    const queue: Selected[] = [];
+    let wake: (() => void) | undefined;
+    const listener = (value: Selected) => {
+      queue.push(value);
+      wake?.();
+    };
+    this.listeners.add(listener);
+    try {
+      if (this.status === 'provided') {
+        queue.push(this.value as Selected);
+      }
+      while (true) {
+        if (queue.length === 0) {
+          await new Promise<void>((resolve) => {
+            wake = resolve;
+          });
+          wake = undefined;
+        }
+        yield queue.shift()!;
+      }
+    } finally {
+      this.listeners.delete(listener);
+    }
+  }
 
-    this.host.$fastController.addBehaviors([this]);
+  /**
+   * Request the context provider to change its value.
+   *
+   * The provider may reject the update; see its `onUpdateRequest` option.
+   *
+   * @param value the requested value
+   * @returns Whether a provider accepted the update
+   */
+  setValue(value: ContextType<C>): boolean {
+    return !(
+      this.host?.dispatchEvent(
+        new ContextUpdateRequestEvent(this.context, value)
+      ) ?? true
+    );
   }
 
   bind(): void {
@@ -76,16 +279,61 @@ export class ContextConsumer<
   }
 
   private dispatchRequest() {
-    this.host?.$fastController.element.dispatchEvent(
+    this.answered = false;
+    this.host?.dispatchEvent(
       new ContextRequestEvent(this.context, this._callback, this.subscribe)
     );
+    if (!this.answered && this.status !== 'provided') {
+      this.setDefaultValue();
+    }
+  }
+
+  private setDefaultValue() {
+    const defaultValue = getContextOptions(this.context)?.defaultValue;
+    if (defaultValue === undefined) {
+      return;
+    }
+    const selected = this.select
+      ? this.select(defaultValue)
+      : (defaultValue as unknown as Selected);
+    if ((this.equals ?? Object.is)(this.value as Selected, selected)) {
+      return;
+    }
+    this.value = selected;
+    this.callback?.(selected);
   }
 
   private unsubscribe?: () => void;
 
+  private onOrphaned = (
+    ev: ContextOrphanedEvent<Context<unknown, unknown>>
+  ): void => {
+    if (ev.callback !== this._callback) {
+      return;
+    }
+    ev.preventDefault();
+
+    this.unsubscribe = undefined;
+    this.provided = false;
+    this.value = undefined;
+    this.status = 'orphaned';
+    this.providerHost = null;
+    if (this.host?.isConnected) {
+      this.dispatchRequest();
+    }
+    if (this.status === 'orphaned' && this.value === undefined) {
+      // Nothing took over; don't let the callback keep the previous value.
+      this.callback?.(undefined as Selected);
+    }
+  };
+
   // This function must have stable identity to properly dedupe in ContextRoot
   // if this element connects multiple times.
-  private _callback: ContextCallback<ContextType<C>> = (value, unsubscribe) => {
+  private _callback: ContextCallback<ContextType<C>> = (
+    value,
+    unsubscribe,
+    providerHost
+  ) => {
     // some providers will pass an unsubscribe function indicating they may provide future values
     if (this.unsubscribe) {
       // if the unsubscribe function changes this implies we have changed provider
@@ -100,19 +348,45 @@ export class ContextConsumer<
       }
     }
 
+    this.answered = true;
+    this.unsubscribe = unsubscribe;
+    this.providerHost = providerHost ?? null;
+
+    if (this.validate) {
+      const error = checkContextValue(this.context, value);
+      if (error) {
+        reportContextError(error, this.host!, this.context);
+        return;
+      }
+    }
+
+    const selected = this.select
+      ? this.select(value)
+      : (value as unknown as Selected);
+    // skip the update if the selected value did not change
+    if (this.provided && this.equals?.(this.value as Selected, selected)) {
+      return;
+    }
+
     // store the value so that it can be retrieved from the controller
     // as it is an observable it will trigger an template update if needed.
-    this.value = value;
+    this.value = selected;
+    this.status = 'provided';
 
     // only invoke callback if we are either expecting updates or have not yet
     // been provided a value
     if (!this.provided || this.subscribe) {
       this.provided = true;
-      if (this.callback) {
-        this.callback(value, unsubscribe);
-      }
+      this.notify(selected, unsubscribe);
     }
-
-    this.unsubscribe = unsubscribe;
   };
+
+  private notify(value: Selected, unsubscribe?: () => void): void {
+    if (this.callback) {
+      this.callback(value, unsubscribe);
+    }
+    for (const listener of [...this.listeners]) {
+      listener(value);
+    }
+  }
 }
@@ -6,9 +6,28 @@
  */
 
 import type {Behavior} from '@microsoft/fast-element';
-import {ContextRequestEvent} from '../context-request-event.js';
-import {ValueNotifier} from '../value-notifier.js';
-import type {Context, ContextType} from '../create-context.js';
+import {
+  ContextCallback,
+  ContextRequestEvent,
+} from '../context-request-event.js';
+import type {ContextUpdateRequestEvent} from '../context-update-request-event.js';
+import {ValueNotifier, type BatchMode} from '../value-notifier.js';
+import {interceptContextValue, type ValueInterceptor} from '../interceptors.js';
+import {ContextConsumer} from './context-consumer.js';
+import {trackConnection} from '../connection-tracker.js';
+import {isComposedDescendant} from '../composed-tree.js';
+import {
+  checkContextValue,
+  type Context,
+  type ContextType,
+} from '../create-context.js';
+import type {EqualityFunction} from '../equality.js';
+import {
+  reportContextError,
+  type ContextErrorHandler,
+} from '../error-handler.js';
+
+const DEV_MODE = true;
 
 declare global {
   interface HTMLElementEventMap {
@@ -17,6 +36,11 @@ declare global {
      * a context provider to indicate it is available for use.
      */
     'context-provider': ContextProviderEvent<Context<unknown, unknown>>;
+    /**
+     * A 'context-orphaned' event is emitted by a context provider on the
+     * elements of its subscribed consumers when it is disconnected.
+     */
+    'context-orphaned': ContextOrphanedEvent<Context<unknown, unknown>>;
   }
 }
 
@@ -24,20 +48,92 @@ export class ContextProviderEvent<
   C extends Context<unknown, unknown>
 > extends Event {
   readonly context: C;
+  readonly contextTarget?: Element;
 
   /**
    *
    * @param context the context which this provider can provide
+   * @param contextTarget the element hosting the provider; to be set when the event is
+   *   re-dispatched from another element
    */
-  constructor(context: C) {
+  constructor(context: C, contextTarget?: Element) {
     super('context-provider', {bubbles: true, composed: true});
     this.context = context;
+    this.contextTarget = contextTarget;
+  }
+}
+
+/**
+ * Event signaling a consumer that its provider is gone.
+ *
+ * It is dispatched on the consumer element and does not bubble. If no
+ * listener cancels it, the provider re-dispatches the consumer request to
+ * let another provider (or a {@link ContextRoot}) take it over.
+ */
+export class ContextOrphanedEvent<
+  C extends Context<unknown, unknown>
+> extends Event {
+  readonly context: C;
+  readonly callback: ContextCallback<ContextType<C>>;
+
+  /**
+   *
+   * @param context the context which was provided
+   * @param callback the callback of the orphaned consumer
+   */
+  constructor(context: C, callback: ContextCallback<ContextType<C>>) {
+    super('context-orphaned', {cancelable: true});
+    this.context = context;
+    this.callback = callback;
   }
 }
 
 export interface Options<C extends Context<unknown, unknown>> {
   context: C;
   initialValue?: ContextType<C>;
+  /**
+   * Function telling whether a new value is equal to the current one; the
+   * consumers are not notified of equal values. Default to `Object.is`.
+   *
+   * {@link shallowEqual} and {@link deepEqual} are available for objects.
+   */
+  equals?: EqualityFunction<ContextType<C>>;
+  /**
+   * Coalesce the synchronous value updates so the consumers are notified once
+   * with the final value; by default they are notified on each update.
+   */
+  batch?: BatchMode;
+  /**
+   * Handler of the errors raised by the consumer callbacks; default to the
+   * handler set with {@link setContextErrorHandler}.
+   */
+  onError?: ContextErrorHandler;
+  /**
+   * Merge the value of the parent provider of the same context with the
+   * local value; e.g. to override a few theme tokens and inherit the others.
+   *
+   * If set, the provider subscribes to the parent value and provides the
+   * merged value; it is merged again when either value changes.
+   */
+  merge?: (
+    parentValue: ContextType<C> | undefined,
+    localValue: ContextType<C>
+  ) => ContextType<C>;
+  /**
+   * Policy deciding whether a value update requested by a consumer is
+   * accepted; by default all requests are accepted.
+   *
+   * @param value the requested value
+   * @param consumerHost the element of the requesting consumer
+   * @returns Whether to set the requested value
+   */
+  onUpdateRequest?: (value: ContextType<C>, consumerHost: Element) => boolean;
+  /**
+   * Functions called in order to transform or reject a value before it is
+   * provided; they run before the interceptors added for the context with
+   * {@link addContextInterceptor}.
+   */
+  interceptors?: ValueInterceptor<ContextType<C>>[];
 }
 
 /**
@@ -54,11 +150,13 @@ export interface Options<C extends Context<unknown, unknown>> {
  * ReactiveControllerHost.
  *
  * ### Note
- * If the element is a standard HTMLElement, we use a ResizeObserver to
+ * If the element is a standard HTMLElement, we use a MutationObserver to
  * be notified of the element connection to the DOM. However that notification
  * arrives after the children elements handle their behavior (including the
  * context consumer behavior). Therefore their registration will be missed
  * except if a {@link ContextRoot} is set up.
+ *
+ * Call {@link ContextProvider.dispose} to stop tracking the element.
  */
 export class ContextProvider<
     T extends Context<unknown, unknown>,
@@ -69,38 +167,130 @@ export class ContextProvider<
 {
   protected readonly host: HostElement;
   private readonly context: T;
-  private isReady = false;
+  private untrackConnection?: () => void;
+  private readonly onError: ContextErrorHandler;
+  private readonly merge?: (
+    parentValue: ContextType<T> | undefined,
+    localValue: ContextType<T>
+  ) => ContextType<T>;
+  private localValue?: ContextType<T>;
+  private parentValue?: ContextType<T>;
+  private parent?: ContextConsumer<T>;
+  private readonly onUpdateRequest?: (
+    value: ContextType<T>,
+    consumerHost: Element
+  ) => boolean;
 
   constructor(el: HostElement, options: Options<T>) {
-    super(options.initialValue);
+    super(options.initialValue, {
+      equals: options.equals,
+      batch: options.batch,
+      interceptors: [
+        ...(options.interceptors ?? []),
+        (value, previousValue) =>
+          interceptContextValue(options.context, value, previousValue),
+        ...(DEV_MODE
+          ? [
+              (value: ContextType<T>) => {
+                const error = checkContextValue(options.context, value);
+                if (error) {
+                  throw error;
+                }
+                return value;
+              },
+            ]
+          : []),
+      ],
+    });
     this.host = el;
     this.context = options.context;
+    this.onError = options.onError ?? reportContextError;
+    this.merge = options.merge;
+    this.localValue = options.initialValue;
+    this.onUpdateRequest = options.onUpdateRequest;
+
+    if (this.merge) {
+      // Provide the merged value before announcing the provider; the
+      // consumers taken over must not get the bare local value.
+      this.provideMerged(false);
+      // The host requests are not answered by this provider but by the
+      // parent one. It is created first so that it is answered before this
+      // provider announces itself.
+      this.parent = new ContextConsumer(this.host, {
+        context: this.context,
+        subscribe: true,
+        callback: (value) => {
+          this.parentValue = value;
+          this.provideMerged(false);
+        },
+      });
+    }
 
     // @ts-expect-error in case of a FASTElement
     if (this.host.$fastController) {
+      // FAST renders the host template before binding its behaviors. So
+      // listen right away to catch the requests of the consumers within
+      // the template.
+      this.host.addEventListener('context-request', this.onContextRequest);
       // @ts-expect-error in case of a FASTElement
       this.host.$fastController.addBehaviors([this]);
     } else {
-      const connectionCallback = () => {
-        if (this.host.isConnected) {
-          if (!this.isReady) {
-            this.isReady = true;
-            this.hostConnected();
-          }
-        } else {
-          if (this.isReady) {
-            this.isReady = false;
-            this.hostDisconnected();
-          }
-        }
-      };
-
-      const attachObserver = new ResizeObserver(connectionCallback);
-      connectionCallback();
-      attachObserver.observe(this.host);
+      this.untrackConnection = trackConnection(this.host, this);
     }
   }
 
+  /**
+   * Set the provided value.
+   *
+   * If the provider has a `merge` function, it sets the local value and
+   * provides its merge with the parent value.
+   */
+  setValue(v: ContextType<T>, force = false): void {
+    if (this.merge) {
+      this.localValue = v;
+      this.provideMerged(force);
+    } else {
+      super.setValue(v, force);
+    }
+  }
+
+  /**
+   * Detach the provider from its host.
+   *
+   * It stops tracking the host connection and behaves as if the host was
+   * disconnected.
+   */
+  dispose(): void {
+    // @ts-expect-error in case of a FASTElement
+    if (this.host.$fastController) {
+      // @ts-expect-error in case of a FASTElement
+      this.host.$fastController.removeBehaviors([this], true);
+    } else {
+      this.untrackConnection?.();
+      this.untrackConnection = undefined;
+    }
+    this.parent?.dispose();
+    this.hostDisconnected();
+  }
+
+  private provideMerged(force: boolean): void {
+    super.setValue(
+      this.merge!(this.parentValue, this.localValue as ContextType<T>),
+      force
+    );
+  }
+
+  protected handleError(error: unknown, consumerHost: Element): void {
+    this.onError(error, consumerHost, this.context);
+  }
+
+  protected invokeCallback(
+    callback: ContextCallback<ContextType<T>>,
+    disposer?: () => void
+  ): void {
+    callback(this.value, disposer, this.host);
+  }
+
   bind(): void {
     this.hostConnected();
   }
@@ -118,7 +308,7 @@ export class ContextProvider<
     // The check on composedPath (as opposed to ev.target) is to cover cases
     // where the consumer is in the shadowDom of the provider (in which case,
     // event.target === this.host because of event retargeting).
-    const consumerHost = ev.composedPath()[0] as Element;
+    const consumerHost = ev.contextTarget ?? (ev.composedPath()[0] as Element);
     if (ev.context !== this.context || consumerHost === this.host) {
       return;
     }
@@ -126,6 +316,21 @@ export class ContextProvider<
     this.addCallback(ev.callback, consumerHost, ev.subscribe);
   };
 
+  onContextUpdateRequest = (
+    ev: ContextUpdateRequestEvent<Context<unknown, unknown>>
+  ): void => {
+    const consumerHost = ev.contextTarget ?? (ev.composedPath()[0] as Element);
+    if (ev.context !== this.context || consumerHost === this.host) {
+      return;
+    }
+    ev.stopPropagation();
+    const value = ev.value as ContextType<T>;
+    if (this.onUpdateRequest?.(value, consumerHost) ?? true) {
+      this.setValue(value);
+      ev.preventDefault();
+    }
+  };
+
   /**
    * When we get a provider request event, that means a child of this element
    * has just woken up. If it's a provider of our context, then we may need to
@@ -141,14 +346,18 @@ export class ContextProvider<
     // We use composedPath (as opposed to ev.target) to cover cases
     // where the consumer is in the shadowDom of the provider (in which case,
     // event.target === this.host because of event retargeting).
-    const childProviderHost = ev.composedPath()[0] as Element;
+    const childProviderHost =
+      ev.contextTarget ?? (ev.composedPath()[0] as Element);
     if (ev.context !== this.context || childProviderHost === this.host) {
       return;
     }
-    // Re-parent all of our subscriptions in case this new child provider
-    // should take them over.
+    // Re-parent our subscriptions within the new child provider subtree
+    // in case it should take them over.
     const seen = new Set<unknown>();
     for (const [callback, {consumerHost}] of this.subscriptions) {
+      if (!isComposedDescendant(consumerHost, childProviderHost)) {
+        continue;
+      }
       // Prevent infinite loops in the case where a one host element
       // is providing the same context multiple times.
       //
@@ -176,13 +385,39 @@ export class ContextProvider<
   hostConnected(): void {
     this.host.addEventListener('context-request', this.onContextRequest);
     this.host.addEventListener('context-provider', this.onProviderRequest);
+    this.host.addEventListener(
+      'context-update-request',
+      this.onContextUpdateRequest
+    );
 
     // emit an event to signal a provider is available for this context
     this.host.dispatchEvent(new ContextProviderEvent(this.context));
   }
 
+  /**
+   * Stop listening to the requests and notify the subscribed consumers
+   * they are orphaned.
+   */
   hostDisconnected(): void {
     this.host.removeEventListener('context-request', this.onContextRequest);
     this.host.removeEventListener('context-provider', this.onProviderRequest);
+    this.host.removeEventListener(
+      'context-update-request',
+      this.onContextUpdateRequest
+    );
+
+    const subscriptions = [...this.subscriptions];
+    this.clearCallbacks();
+    for (const [callback, {consumerHost}] of subscriptions) {
+      const handled = !consumerHost.dispatchEvent(
+        new ContextOrphanedEvent(this.context, callback)
+      );
+      if (!handled) {
+        // Let the next provider up the tree take over the consumer.
+        consumerHost.dispatchEvent(
+          new ContextRequestEvent(this.context, callback, true)
+        );
+      }
+    }
   }
 }
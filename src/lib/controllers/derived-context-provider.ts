@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ContextConsumer} from './context-consumer.js';
+import {ContextProvider, type Options} from './context-provider.js';
+import type {Context, ContextType} from '../create-context.js';
+
+/**
+ * Values of a list of contexts; a value is `undefined` until the context
+ * is provided.
+ */
+export type ContextValues<
+  Sources extends readonly Context<unknown, unknown>[]
+> = {
+  [K in keyof Sources]: Sources[K] extends Context<unknown, infer ValueType>
+    ? ValueType | undefined
+    : never;
+};
+
+export interface DerivedOptions<
+  C extends Context<unknown, unknown>,
+  Sources extends readonly Context<unknown, unknown>[]
+> extends Omit<Options<C>, 'initialValue' | 'merge'> {
+  /**
+   * Contexts from which the value is derived
+   */
+  contexts: Sources;
+  /**
+   * Compute the provided value from the values of the source contexts
+   */
+  compute: (...values: ContextValues<Sources>) => ContextType<C>;
+}
+
+/**
+ * A context provider whose value is derived from other contexts.
+ *
+ * It subscribes to the source contexts from its host and provides the
+ * computed value to its descendants. The value is computed again each time
+ * a source value changes; the consumers are not notified if the new value is
+ * equal to the previous one according to the `equals` option.
+ *
+ * ### Note
+ * The source contexts must differ from the provided context as a provider
+ * does not answer the requests of its own host.
+ *
+ * The consumer update requests are rejected by default as the value would be
+ * overwritten by the next computation; set `onUpdateRequest` to accept them.
+ */
+export class DerivedContextProvider<
+  C extends Context<unknown, unknown>,
+  Sources extends readonly Context<unknown, unknown>[],
+  HostElement extends HTMLElement = HTMLElement
+> extends ContextProvider<C, HostElement> {
+  private readonly compute: (
+    ...values: ContextValues<Sources>
+  ) => ContextType<C>;
+  private readonly consumers: ContextConsumer<Context<unknown, unknown>>[];
+  private ready = false;
+
+  constructor(el: HostElement, options: DerivedOptions<C, Sources>) {
+    super(el, {
+      context: options.context,
+      equals: options.equals,
+      batch: options.batch,
+      onError: options.onError,
+      onUpdateRequest: options.onUpdateRequest ?? (() => false),
+      interceptors: options.interceptors,
+    });
+    this.compute = options.compute;
+    // The consumers of a connected plain element are answered while being
+    // created; the value is computed once all of them exist.
+    this.consumers = options.contexts.map(
+      (context) =>
+        new ContextConsumer(el, {
+          context,
+          subscribe: true,
+          callback: () => {
+            if (this.ready) {
+              this.recompute();
+            }
+          },
+        })
+    );
+    this.ready = true;
+    this.recompute();
+  }
+
+  dispose(): void {
+    for (const consumer of this.consumers) {
+      consumer.dispose();
+    }
+    super.dispose();
+  }
+
+  private recompute(): void {
+    const values = this.consumers.map(
+      (consumer) => consumer.value
+    ) as unknown as ContextValues<Sources>;
+    this.setValue(this.compute(...values));
+  }
+}
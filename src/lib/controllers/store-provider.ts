@@ -0,0 +1,128 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ContextProvider, type Options} from './context-provider.js';
+import type {Context, ContextType} from '../create-context.js';
+
+/**
+ * Function dispatching an action to a store
+ */
+export type Dispatch<Action> = (action: Action) => void;
+
+/**
+ * Function computing the next state of a store from an action
+ */
+export type Reducer<State, Action> = (state: State, action: Action) => State;
+
+/**
+ * Store interface given to the middleware
+ */
+export interface MiddlewareAPI<State, Action> {
+  /**
+   * Get the current state
+   */
+  getState(): State;
+  /**
+   * Dispatch an action through the whole middleware chain
+   */
+  dispatch: Dispatch<Action>;
+}
+
+/**
+ * Store middleware
+ *
+ * It wraps the dispatch of the next middleware; e.g. to log the actions or
+ * to dispatch asynchronous actions.
+ */
+export type Middleware<State, Action> = (
+  api: MiddlewareAPI<State, Action>
+) => (next: Dispatch<Action>) => Dispatch<Action>;
+
+export interface StoreOptions<C extends Context<unknown, unknown>, Action>
+  extends Omit<Options<C>, 'initialValue' | 'merge'> {
+  /**
+   * Reducer computing the next state
+   */
+  reducer: Reducer<ContextType<C>, Action>;
+  /**
+   * Initial state
+   */
+  initialState: ContextType<C>;
+  /**
+   * Middleware applied to the dispatched actions; the first one is the
+   * outermost.
+   */
+  middleware?: Middleware<ContextType<C>, Action>[];
+  /**
+   * Context through which the consumers get the store `dispatch` function
+   */
+  dispatchContext?: Context<unknown, Dispatch<Action>>;
+}
+
+/**
+ * A context provider whose value is the state of a reducer-based store.
+ *
+ * The state is changed by dispatching actions; the new state is provided to
+ * the subscribed consumers like any provider value. The `dispatch` function
+ * is provided to the consumers through the `dispatchContext` if set.
+ *
+ * ### Note
+ * The consumer update requests are rejected by default as they would bypass
+ * the reducer; set `onUpdateRequest` to accept them.
+ */
+export class StoreProvider<
+  C extends Context<unknown, unknown>,
+  Action,
+  HostElement extends HTMLElement = HTMLElement
+> extends ContextProvider<C, HostElement> {
+  private readonly dispatchProvider?: ContextProvider<
+    Context<unknown, Dispatch<Action>>,
+    HostElement
+  >;
+  private readonly chain: Dispatch<Action>;
+
+  constructor(el: HostElement, options: StoreOptions<C, Action>) {
+    super(el, {
+      context: options.context,
+      initialValue: options.initialState,
+      equals: options.equals,
+      batch: options.batch,
+      onError: options.onError,
+      onUpdateRequest: options.onUpdateRequest ?? (() => false),
+      interceptors: options.interceptors,
+    });
+    const api: MiddlewareAPI<ContextType<C>, Action> = {
+      getState: () => this.value,
+      dispatch: this.dispatch,
+    };
+    this.chain = (options.middleware ?? []).reduceRight<Dispatch<Action>>(
+      (next, middleware) => middleware(api)(next),
+      (action) => {
+        this.setValue(options.reducer(this.value, action));
+      }
+    );
+    if (options.dispatchContext !== undefined) {
+      this.dispatchProvider = new ContextProvider(el, {
+        context: options.dispatchContext,
+        initialValue: this.dispatch,
+      });
+    }
+  }
+
+  /**
+   * Dispatch an action to the store.
+   *
+   * @param action the action
+   */
+  readonly dispatch: Dispatch<Action> = (action) => {
+    this.chain(action);
+  };
+
+  dispose(): void {
+    this.dispatchProvider?.dispose();
+    super.dispose();
+  }
+}
@@ -5,6 +5,8 @@
  * SPDX-License-Identifier: BSD-3-Clause
  */
 
+import {ContextMap} from './context-map.js';
+
 /**
  * The Context type defines a type brand to associate a key value with the context value type
  */
@@ -21,6 +23,29 @@ export type ContextKey<KeyType, ValueType> = Context<KeyType, ValueType>;
 export type ContextType<Key extends Context<unknown, unknown>> =
   Key extends Context<unknown, infer ValueType> ? ValueType : never;
 
+/**
+ * Context metadata
+ */
+export interface ContextOptions<ValueType> {
+  /**
+   * Value delivered to the consumers when no provider answers their request
+   */
+  defaultValue?: ValueType;
+  /**
+   * Human readable name of the context; e.g. for debugging
+   */
+  name?: string;
+  /**
+   * Type guard checking the context values at runtime
+   *
+   * The providers reject invalid values in development builds; the consumers
+   * check the values if their `validate` option is set.
+   */
+  validate?: (value: unknown) => value is ValueType;
+}
+
+const contextOptions = new ContextMap<ContextOptions<unknown>>();
+
 /**
  * Creates a typed Context.
  *
@@ -48,10 +73,63 @@ export type ContextType<Key extends Context<unknown, unknown>> =
  * createContext(Symbol('my-context')) === createContext(Symbol('my-context'))
  * ```
  *
+ * The context metadata are shared by all contexts with the same key:
+ *
+ * ```ts
+ * const themeContext = createContext<string>('theme', {
+ *   defaultValue: 'light',
+ *   name: 'Application theme',
+ *   validate: (value): value is string => typeof value === 'string',
+ * });
+ * ```
+ *
  * @param key a context key value
+ * @param options the context metadata
  * @template ValueType the type of value that can be provided by this context.
  * @returns the context key value cast to `Context<K, ValueType>`
  */
-export function createContext<ValueType, K = unknown>(key: K) {
+export function createContext<ValueType, K = unknown>(
+  key: K,
+  options?: ContextOptions<ValueType>
+) {
+  if (options !== undefined) {
+    contextOptions.set(key, options);
+  }
   return key as Context<K, ValueType>;
 }
+
+/**
+ * Get the metadata of a context.
+ *
+ * @param context the context
+ * @returns the metadata given to {@link createContext} or `undefined`
+ */
+export function getContextOptions<C extends Context<unknown, unknown>>(
+  context: C
+): ContextOptions<ContextType<C>> | undefined {
+  return contextOptions.get(context) as
+    | ContextOptions<ContextType<C>>
+    | undefined;
+}
+
+/**
+ * Check a value with the context `validate` guard.
+ *
+ * @param context the context
+ * @param value the value to check
+ * @returns an error describing the invalid value or `undefined` if it is valid
+ */
+export function checkContextValue<C extends Context<unknown, unknown>>(
+  context: C,
+  value: unknown
+): TypeError | undefined {
+  const options = getContextOptions(context);
+  if (options?.validate === undefined || options.validate(value)) {
+    return undefined;
+  }
+  return new TypeError(
+    `Invalid value of type ${typeof value} for context ${
+      options.name ?? String(context)
+    }`
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import type {FASTElement} from '@microsoft/fast-element';
+
+type Initializer<E extends FASTElement> = (element: E) => void;
+
+const initializers = new WeakMap<object, Initializer<FASTElement>[]>();
+
+/**
+ * Register a function to be called once for every instance of a class.
+ *
+ * FASTElement has no per-instance hook usable by experimental decorators
+ * (like `ReactiveElement.addInitializer` in Lit). So the prototype
+ * `connectedCallback` is wrapped to call the initializers the first time
+ * the element is connected; i.e. before the element renders its template
+ * and binds its behaviors.
+ *
+ * @param proto Prototype of the decorated class
+ * @param initializer Function to call with the element instance
+ */
+export function addInitializer<E extends FASTElement>(
+  proto: E,
+  initializer: Initializer<E>
+): void {
+  let protoInitializers = initializers.get(proto);
+  if (protoInitializers === undefined) {
+    const callbacks: Initializer<FASTElement>[] = (protoInitializers = []);
+    initializers.set(proto, callbacks);
+
+    const initialized = new WeakSet<FASTElement>();
+    const connectedCallback = proto.connectedCallback;
+    Reflect.defineProperty(proto, 'connectedCallback', {
+      value: function (this: FASTElement) {
+        if (!initialized.has(this)) {
+          initialized.add(this);
+          for (const callback of callbacks) {
+            callback(this);
+          }
+        }
+        connectedCallback.call(this);
+      },
+      configurable: true,
+      writable: true,
+    });
+  }
+  protoInitializers.push(initializer as Initializer<FASTElement>);
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+/**
+ * A function telling whether two values are equal
+ */
+export type EqualityFunction<T> = (a: T, b: T) => boolean;
+
+const hasOwnProperty = Object.prototype.hasOwnProperty;
+
+function isObject(value: unknown): value is Record<PropertyKey, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Compare the built-in objects whose state is not in their own properties.
+ *
+ * @returns Whether the objects are equal; `undefined` if they are not dates,
+ *   regular expressions, maps or sets.
+ */
+function compareBuiltIns(
+  a: object,
+  b: object,
+  equals: EqualityFunction<unknown>
+): boolean | undefined {
+  if (a instanceof Date) {
+    return a.getTime() === (b as Date).getTime();
+  }
+  if (a instanceof RegExp) {
+    const other = b as RegExp;
+    return a.source === other.source && a.flags === other.flags;
+  }
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    if (a.size !== other.size) {
+      return false;
+    }
+    for (const [key, value] of a) {
+      if (!other.has(key) || !equals(value, other.get(key))) {
+        return false;
+      }
+    }
+    return true;
+  }
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    return a.size === other.size && [...a].every((item) => other.has(item));
+  }
+  return undefined;
+}
+
+function compare(
+  a: unknown,
+  b: unknown,
+  equals: EqualityFunction<unknown>
+): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (
+    !isObject(a) ||
+    !isObject(b) ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+  const builtInEqual = compareBuiltIns(a, b, equals);
+  if (builtInEqual !== undefined) {
+    return builtInEqual;
+  }
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => hasOwnProperty.call(b, key) && equals(a[key], b[key]))
+  );
+}
+
+/**
+ * Compare two values and, if they are objects or arrays, their own
+ * enumerable properties with `Object.is`.
+ *
+ * Dates are equal if they have the same time, regular expressions if they
+ * have the same source and flags, maps if they have the same keys and
+ * values and sets if they have the same items.
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+  return compare(a, b, Object.is);
+}
+
+/**
+ * Compare two values recursively; i.e. arrays and plain objects are equal
+ * if their own enumerable properties are deeply equal and maps are equal if
+ * they have the same keys and deeply equal values.
+ *
+ * Dates, regular expressions and sets are compared as in {@link shallowEqual}.
+ *
+ * ### Note
+ * Cyclic structures are not supported. The map keys and the set items are
+ * compared by identity.
+ */
+export function deepEqual<T>(a: T, b: T): boolean {
+  return compare(a, b, deepEqual);
+}
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import type {Context} from './create-context.js';
+
+/**
+ * Handler of the errors raised by the consumer callbacks
+ *
+ * @param error The error raised
+ * @param consumerHost The element of the consumer
+ * @param context The provided context
+ */
+export type ContextErrorHandler = (
+  error: unknown,
+  consumerHost: Element,
+  context: Context<unknown, unknown>
+) => void;
+
+const defaultHandler: ContextErrorHandler = (error) => {
+  console.error(error);
+};
+
+let globalHandler = defaultHandler;
+
+/**
+ * Set the handler of the errors raised by the consumer callbacks for the
+ * providers without `onError` option.
+ *
+ * By default, the errors are logged in the console.
+ *
+ * @param handler Error handler; `undefined` to restore the default one
+ */
+export function setContextErrorHandler(handler?: ContextErrorHandler): void {
+  globalHandler = handler ?? defaultHandler;
+}
+
+/**
+ * Report an error raised by a consumer callback to the global handler.
+ */
+export const reportContextError: ContextErrorHandler = (
+  error,
+  consumerHost,
+  context
+) => {
+  globalHandler(error, consumerHost, context);
+};
@@ -1,20 +1,38 @@
 import {ContextConsumer} from './controllers/context-consumer.js';
 import {ContextProvider} from './controllers/context-provider.js';
+import {
+  DerivedContextProvider,
+  type DerivedOptions,
+} from './controllers/derived-context-provider.js';
 import {Context} from './create-context.js';
-import {Observable, type FASTElement} from '@microsoft/fast-element';
+import {Observable, type Subscriber} from '@microsoft/fast-element';
 
 /**
- * Add a context consumer to a FASTElement attribute
+ * Handle on a context controller defined for an element property
+ */
+export interface ContextHandle<Controller> {
+  /**
+   * The context controller
+   */
+  readonly controller: Controller;
+  /**
+   * Detach the controller from the element and restore the element property.
+   */
+  dispose(): void;
+}
+
+/**
+ * Add a context consumer to a HTMLElement attribute
  *
  * ### Note
- * It must be called in the constructor after `super()`.
+ * If used for a FASTElement, it must be called in the constructor after `super()`.
  *
  * @param element Element on which to add a consumer
  * @param name Element attribute to set with the consumer
  * @param options Consumer options
- * @returns The context consumer
+ * @returns The handle on the context consumer
  */
-export function defineConsumer<E extends HTMLElement & FASTElement, ValueType>(
+export function defineConsumer<E extends HTMLElement, ValueType>(
   element: E,
   name: PropertyKey,
   {
@@ -24,11 +42,13 @@ export function defineConsumer<E extends HTMLElement & FASTElement, ValueType>(
     context: Context<unknown, ValueType>;
     subscribe?: boolean;
   }
-): ContextConsumer<
-  {
-    __context__: ValueType;
-  },
-  E
+): ContextHandle<
+  ContextConsumer<
+    {
+      __context__: ValueType;
+    },
+    E
+  >
 > {
   const consumer = new ContextConsumer(element, {
     context,
@@ -39,7 +59,12 @@ export function defineConsumer<E extends HTMLElement & FASTElement, ValueType>(
     subscribe,
   });
 
-  return consumer;
+  return {
+    controller: consumer,
+    dispose: () => {
+      consumer.dispose();
+    },
+  };
 }
 
 /**
@@ -55,6 +80,7 @@ export function defineConsumer<E extends HTMLElement & FASTElement, ValueType>(
  * @param element Element providing the context
  * @param name Element attribute defining the provider
  * @param options Context provider options
+ * @returns The handle on the context provider
  */
 export function defineProvider<E extends HTMLElement, ValueType>(
   element: E,
@@ -64,36 +90,41 @@ export function defineProvider<E extends HTMLElement, ValueType>(
   }: {
     context: Context<unknown, ValueType>;
   }
-): void {
-  // Map of instances to controllers
-  const controllerMap = new WeakMap<
-    E,
-    ContextProvider<Context<unknown, ValueType>>
-  >();
+): ContextHandle<ContextProvider<Context<unknown, ValueType>, E>> {
   // @ts-expect-error Element has no string index
   const initialValue = element[name];
 
-  controllerMap.set(
-    element,
-    new ContextProvider(element, {context, initialValue})
+  const provider = new ContextProvider(element, {context, initialValue});
+
+  // Listen to FAST observable logic as it bypasses any setter
+  // overridden here; e.g. attribute reflection will update the
+  // provider value.
+  const unwatch = watchObservable(element, name, (value: ValueType) =>
+    provider.setValue(value)
   );
+  if (unwatch) {
+    return {
+      controller: provider,
+      dispose: () => {
+        unwatch();
+        provider.dispose();
+      },
+    };
+  }
 
   // proxy any existing setter for this property and use it to
   // notify the controller of an updated value
   const descriptor = Reflect.getOwnPropertyDescriptor(element, name);
   let newDescriptor: PropertyDescriptor;
-  if (descriptor === undefined) {
-    const valueMap = new WeakMap<E, ValueType>();
-    if (initialValue) {
-      valueMap.set(element, initialValue);
-    }
+  if (descriptor === undefined || 'value' in descriptor) {
+    let value: ValueType = initialValue;
     newDescriptor = {
       get: function (this: E) {
-        return valueMap.get(this);
+        return value;
       },
-      set: function (this: E, value: ValueType) {
-        controllerMap.get(this)!.setValue(value);
-        valueMap.set(this, value);
+      set: function (this: E, newValue: ValueType) {
+        provider.setValue(newValue);
+        value = newValue;
       },
       configurable: true,
       enumerable: true,
@@ -103,7 +134,7 @@ export function defineProvider<E extends HTMLElement, ValueType>(
     newDescriptor = {
       ...descriptor,
       set: function (this: E, value: ValueType) {
-        controllerMap.get(this)!.setValue(value);
+        provider.setValue(value);
         // @ts-expect-error ignore typing issue
         oldSetter?.call(this, value);
       },
@@ -111,23 +142,87 @@ export function defineProvider<E extends HTMLElement, ValueType>(
   }
   Reflect.defineProperty(element, name, newDescriptor);
 
-  // Listen to FAST observable logic as it bypasses the setter
-  // overridden here
-  // For example attribute reflection will update the provider
-  // value.
-  const notifier = Observable.getNotifier(element);
-  const handler = {
-    handleChange(source: HTMLElement, propertyName: string) {
-      const accessor = Observable.getAccessors(element).find(
-        (accessor) => accessor.name === propertyName
-      );
-      if (accessor) {
+  return {
+    controller: provider,
+    dispose: () => {
+      provider.dispose();
+      if (descriptor === undefined || 'value' in descriptor) {
         // @ts-expect-error Element has no string index
-        source[propertyName] = accessor.getValue(source);
+        const value = element[name];
+        Reflect.deleteProperty(element, name);
+        if (descriptor) {
+          Reflect.defineProperty(element, name, {...descriptor, value});
+        } else {
+          // Go through the prototype setter if any
+          // @ts-expect-error Element has no string index
+          element[name] = value;
+        }
+      } else {
+        Reflect.defineProperty(element, name, descriptor);
       }
     },
   };
-  notifier.subscribe(handler, name);
+}
 
-  return;
+/**
+ * Provide a context derived from other contexts on a HTMLElement
+ *
+ * ### Note
+ * If used for a FASTElement, it must be called in the constructor after `super()`.
+ *
+ * @param element Element providing the context
+ * @param options Derived context provider options
+ * @returns The handle on the derived context provider
+ */
+export function defineDerivedProvider<
+  E extends HTMLElement,
+  C extends Context<unknown, unknown>,
+  Sources extends readonly Context<unknown, unknown>[]
+>(
+  element: E,
+  options: DerivedOptions<C, Sources>
+): ContextHandle<DerivedContextProvider<C, Sources, E>> {
+  const provider = new DerivedContextProvider(element, options);
+
+  return {
+    controller: provider,
+    dispose: () => {
+      provider.dispose();
+    },
+  };
+}
+
+/**
+ * Call `onChange` with the new value each time the FAST observable
+ * property of an element changes.
+ *
+ * @param element Element owning the property
+ * @param name Property name
+ * @param onChange Callback receiving the new property value
+ * @returns A function to stop watching the property or `undefined`
+ * if the property is not a FAST observable (`@attr` or `@observable`).
+ */
+export function watchObservable<ValueType>(
+  element: HTMLElement,
+  name: PropertyKey,
+  onChange: (value: ValueType) => void
+): (() => void) | undefined {
+  const accessor = Observable.getAccessors(element).find(
+    (accessor) => accessor.name === name
+  );
+  if (accessor === undefined) {
+    return undefined;
+  }
+
+  const notifier = Observable.getNotifier(element);
+  const handler: Subscriber = {
+    handleChange(source: HTMLElement) {
+      onChange(accessor.getValue(source));
+    },
+  };
+  notifier.subscribe(handler, accessor.name);
+
+  return () => {
+    notifier.unsubscribe(handler, accessor.name);
+  };
 }
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ContextMap} from './context-map.js';
+import type {Context, ContextType} from './create-context.js';
+
+/**
+ * Value to return from an interceptor to reject a value
+ */
+export const VETO: unique symbol = Symbol('veto');
+
+/**
+ * Function transforming a value before it is set; it returns the
+ * transformed value or {@link VETO} to keep the current value.
+ *
+ * @param value The value to set
+ * @param previousValue The current value; `undefined` for the initial value
+ */
+export type ValueInterceptor<T> = (
+  value: T,
+  previousValue: T | undefined
+) => T | typeof VETO;
+
+const contextInterceptors = new ContextMap<ValueInterceptor<unknown>[]>();
+
+/**
+ * Add an interceptor for the values of all providers of a context.
+ *
+ * The context interceptors are called in the order they are added, after the
+ * interceptors of the provider.
+ *
+ * @param context The context
+ * @param interceptor The interceptor
+ * @returns A function removing the interceptor
+ */
+export function addContextInterceptor<C extends Context<unknown, unknown>>(
+  context: C,
+  interceptor: ValueInterceptor<ContextType<C>>
+): () => void {
+  let interceptors = contextInterceptors.get(context);
+  if (interceptors === undefined) {
+    contextInterceptors.set(context, (interceptors = []));
+  }
+  interceptors.push(interceptor as ValueInterceptor<unknown>);
+
+  return () => {
+    const index = interceptors!.indexOf(
+      interceptor as ValueInterceptor<unknown>
+    );
+    if (index >= 0) {
+      interceptors!.splice(index, 1);
+    }
+    if (interceptors!.length === 0) {
+      contextInterceptors.delete(context);
+    }
+  };
+}
+
+/**
+ * Run a value through interceptors.
+ *
+ * @param interceptors The interceptors to call in order
+ * @param value The value to set
+ * @param previousValue The current value
+ * @returns The transformed value or {@link VETO} if an interceptor rejected it
+ */
+export function intercept<T>(
+  interceptors: readonly ValueInterceptor<T>[],
+  value: T,
+  previousValue: T | undefined
+): T | typeof VETO {
+  let result: T | typeof VETO = value;
+  for (const interceptor of interceptors) {
+    result = interceptor(result, previousValue);
+    if (result === VETO) {
+      break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Run a value through the interceptors of a context.
+ *
+ * @param context The context
+ * @param value The value to set
+ * @param previousValue The current value
+ * @returns The transformed value or {@link VETO} if an interceptor rejected it
+ */
+export function interceptContextValue<C extends Context<unknown, unknown>>(
+  context: C,
+  value: ContextType<C>,
+  previousValue: ContextType<C> | undefined
+): ContextType<C> | typeof VETO {
+  const interceptors = contextInterceptors.get(context);
+  if (interceptors === undefined) {
+    return value;
+  }
+  // Copy the list in case an interceptor is removed while running
+  return intercept(
+    [...interceptors] as ValueInterceptor<ContextType<C>>[],
+    value,
+    previousValue
+  );
+}
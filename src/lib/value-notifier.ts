@@ -5,13 +5,43 @@
  * SPDX-License-Identifier: BSD-3-Clause
  */
 
+import {DOM} from '@microsoft/fast-element';
 import {ContextCallback} from './context-request-event.js';
+import type {EqualityFunction} from './equality.js';
+import {intercept, VETO, type ValueInterceptor} from './interceptors.js';
 
 /**
  * A disposer function
  */
 type Disposer = () => void;
 
+/**
+ * Batching mode of the value updates
+ *
+ * - `microtask`: notify the observers once at the end of the current microtask.
+ * - `fast`: notify the observers once with FAST `DOM.queueUpdate`; i.e. along
+ *   with the template updates.
+ */
+export type BatchMode = 'microtask' | 'fast';
+
+export interface ValueNotifierOptions<T> {
+  /**
+   * Function telling whether a new value is equal to the current one; the
+   * observers are not notified of equal values. Default to `Object.is`.
+   */
+  equals?: EqualityFunction<T>;
+  /**
+   * Coalesce the value updates; by default the observers are notified
+   * synchronously on each update.
+   */
+  batch?: BatchMode;
+  /**
+   * Functions called in order to transform or reject a value before it is
+   * set; the initial value included.
+   */
+  interceptors?: ValueInterceptor<T>[];
+}
+
 interface CallbackInfo {
   disposer: Disposer;
   consumerHost: Element;
@@ -38,26 +68,94 @@ export class ValueNotifier<T> {
     this.setValue(v);
   }
 
+  private readonly equals: EqualityFunction<T>;
+  private readonly batch?: BatchMode;
+  private readonly interceptors: ValueInterceptor<T>[];
+  private updateQueued = false;
+
   setValue(v: T, force = false) {
-    const update = force || !Object.is(v, this._value);
-    this._value = v;
-    if (update) {
-      this.updateObservers();
+    const value = intercept(this.interceptors, v, this._value);
+    if (value === VETO) {
+      return;
+    }
+    if (force || !this.equals(value, this._value)) {
+      this._value = value;
+      if (this.batch === undefined) {
+        this.updateObservers();
+      } else if (!this.updateQueued) {
+        this.updateQueued = true;
+        if (this.batch === 'fast') {
+          DOM.queueUpdate(this.flushUpdate);
+        } else {
+          queueMicrotask(this.flushUpdate);
+        }
+      }
     }
   }
 
-  constructor(defaultValue?: T) {
+  /**
+   * @param defaultValue Initial value
+   * @param options Notification options
+   */
+  constructor(defaultValue?: T, options: ValueNotifierOptions<T> = {}) {
+    this.equals = options.equals ?? Object.is;
+    this.batch = options.batch;
+    this.interceptors = options.interceptors ?? [];
     if (defaultValue !== undefined) {
-      this.value = defaultValue;
+      const value = intercept(this.interceptors, defaultValue, undefined);
+      if (value !== VETO) {
+        this._value = value;
+      }
     }
   }
 
+  private flushUpdate = (): void => {
+    this.updateQueued = false;
+    this.updateObservers();
+  };
+
   updateObservers = (): void => {
-    for (const [callback, {disposer}] of this.subscriptions) {
-      callback(this._value, disposer);
+    for (const [callback, {disposer, consumerHost}] of this.subscriptions) {
+      this.safeInvokeCallback(callback, consumerHost, disposer);
     }
   };
 
+  private safeInvokeCallback(
+    callback: ContextCallback<T>,
+    consumerHost: Element,
+    disposer?: Disposer
+  ): void {
+    // A failing consumer must not prevent the others to be notified
+    try {
+      this.invokeCallback(callback, disposer);
+    } catch (error) {
+      this.handleError(error, consumerHost);
+    }
+  }
+
+  /**
+   * Handle an error raised by a consumer callback.
+   *
+   * @param error The error raised
+   * @param consumerHost The element of the consumer
+   */
+  protected handleError(error: unknown, consumerHost: Element): void {
+    console.error(error, consumerHost);
+  }
+
+  /**
+   * Call a consumer callback with the current value.
+   *
+   * @param callback Consumer callback
+   * @param disposer Function to unsubscribe the consumer
+   */
+  protected invokeCallback(
+    callback: ContextCallback<T>,
+    disposer?: Disposer
+  ): void {
+    callback(this._value, disposer);
+  }
+
   addCallback(
     callback: ContextCallback<T>,
     consumerHost: Element,
@@ -65,7 +163,7 @@ export class ValueNotifier<T> {
   ): void {
     if (!subscribe) {
       // just call the callback once and we're done
-      callback(this.value);
+      this.safeInvokeCallback(callback, consumerHost);
       return;
     }
     if (!this.subscriptions.has(callback)) {
@@ -77,7 +175,7 @@ export class ValueNotifier<T> {
       });
     }
     const {disposer} = this.subscriptions.get(callback)!;
-    callback(this.value, disposer);
+    this.safeInvokeCallback(callback, consumerHost, disposer);
   }
 
   clearCallbacks(): void {
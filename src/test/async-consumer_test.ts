@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  ContextRoot,
+  createContext,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+suite('async context consumer', () => {
+  let root: ContextRoot;
+  let container: HTMLElement;
+  let consumer: ContextConsumer<typeof simpleContext>;
+
+  setup(async () => {
+    container = document.createElement('div');
+    container.innerHTML = '<div id="consumer"></div>';
+    document.body.appendChild(container);
+    root = new ContextRoot();
+    root.attach(container);
+
+    consumer = new ContextConsumer(
+      container.querySelector('#consumer') as HTMLElement,
+      {context: simpleContext, subscribe: true}
+    );
+  });
+
+  teardown(() => {
+    root.detach(container);
+    container.remove();
+  });
+
+  test('whenProvided resolves with the first value', async () => {
+    const value = consumer.whenProvided();
+    const provider = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1000,
+    });
+    provider.setValue(500);
+    assert.strictEqual(await value, 1000);
+    assert.strictEqual(await consumer.whenProvided(), 500);
+  });
+
+  test('whenProvided is rejected when aborted', async () => {
+    const controller = new AbortController();
+    const value = consumer.whenProvided(controller.signal);
+    controller.abort(new Error('Too late'));
+
+    try {
+      await value;
+      assert.fail('whenProvided should be rejected');
+    } catch (reason) {
+      assert.strictEqual((reason as Error).message, 'Too late');
+    }
+    new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1000,
+    });
+    assert.strictEqual(consumer.value, 1000);
+  });
+
+  test('values yields each update', async () => {
+    const provider = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1000,
+    });
+
+    const values: number[] = [];
+    const done = (async () => {
+      for await (const value of consumer.values()) {
+        values.push(value);
+        if (value === 0) {
+          break;
+        }
+      }
+    })();
+
+    await Promise.resolve();
+    provider.setValue(500);
+    provider.setValue(0);
+    await done;
+    provider.setValue(10);
+
+    assert.deepEqual(values, [1000, 500, 0]);
+  });
+
+  test('values does not yield when the consumer is orphaned', async () => {
+    const provider = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1000,
+    });
+
+    const values: (number | undefined)[] = [];
+    const done = (async () => {
+      for await (const value of consumer.values()) {
+        values.push(value);
+        if (value === 0) {
+          break;
+        }
+      }
+    })();
+
+    await Promise.resolve();
+    provider.dispose();
+    new ContextProvider(container, {context: simpleContext, initialValue: 0});
+    await done;
+
+    assert.deepEqual(values, [1000, 0]);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {DOM} from '@microsoft/fast-element';
+
+import {
+  BatchMode,
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+suite('provider update batching', () => {
+  let container: HTMLElement;
+
+  setup(() => {
+    container = document.createElement('div');
+    container.innerHTML = '<div id="consumer"></div>';
+    document.body.appendChild(container);
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  const createProvider = (batch: BatchMode) => {
+    const provider = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 0,
+      batch,
+    });
+    const values: number[] = [];
+    new ContextConsumer(container.querySelector('#consumer') as HTMLElement, {
+      context: simpleContext,
+      subscribe: true,
+      callback: (value) => values.push(value),
+    });
+    return {provider, values};
+  };
+
+  test('updates are coalesced within a microtask', async () => {
+    const {provider, values} = createProvider('microtask');
+
+    provider.setValue(1);
+    provider.setValue(2);
+    provider.setValue(3);
+    assert.strictEqual(provider.value, 3);
+    assert.deepEqual(values, [0]);
+
+    await Promise.resolve();
+    assert.deepEqual(values, [0, 3]);
+
+    provider.setValue(4);
+    await Promise.resolve();
+    assert.deepEqual(values, [0, 3, 4]);
+  });
+
+  test('updates are coalesced in the FAST update queue', async () => {
+    const {provider, values} = createProvider('fast');
+
+    provider.setValue(1);
+    provider.setValue(2);
+    assert.deepEqual(values, [0]);
+
+    DOM.processUpdates();
+    assert.deepEqual(values, [0, 2]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {ContextProvider, createContext} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+// This suite is kept in its own file: the elements disconnected by other
+// tests would still be tracked.
+suite('connection observers', () => {
+  let container: HTMLElement;
+  let observed: Set<MutationObserver>;
+  const {observe, disconnect} = MutationObserver.prototype;
+
+  setup(() => {
+    container = document.createElement('div');
+    for (let i = 0; i < 5; i++) {
+      container
+        .appendChild(document.createElement('div'))
+        .attachShadow({mode: 'open'});
+    }
+    document.body.appendChild(container);
+
+    observed = new Set();
+    MutationObserver.prototype.observe = function (
+      this: MutationObserver,
+      ...args: Parameters<MutationObserver['observe']>
+    ) {
+      observed.add(this);
+      observe.apply(this, args);
+    };
+    MutationObserver.prototype.disconnect = function (this: MutationObserver) {
+      observed.delete(this);
+      disconnect.apply(this);
+    };
+  });
+
+  teardown(() => {
+    MutationObserver.prototype.observe = observe;
+    MutationObserver.prototype.disconnect = disconnect;
+    container.remove();
+  });
+
+  test('shadow roots are observed while detached elements are tracked', () => {
+    const provider = new ContextProvider(document.createElement('div'), {
+      context: simpleContext,
+      initialValue: 1,
+    });
+    // The document and the shadow roots
+    assert.strictEqual(observed.size, 6);
+
+    provider.dispose();
+    assert.strictEqual(observed.size, 0);
+  });
+
+  test('shadow roots are not observed once the elements are connected', async () => {
+    const host = document.createElement('div');
+    const provider = new ContextProvider(host, {
+      context: simpleContext,
+      initialValue: 1,
+    });
+    container.appendChild(host);
+    await new Promise((resolve) => setTimeout(resolve));
+
+    // The document only
+    assert.strictEqual(observed.size, 1);
+    provider.dispose();
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  ContextConsumer,
+  ContextEvent,
+  ContextProvider,
+  createContext,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+// Connection changes are notified by a MutationObserver
+const nextMutation = () => new Promise((resolve) => setTimeout(resolve));
+
+class TrackedContextConsumer extends HTMLElement {
+  public consumer = new ContextConsumer(this, {
+    context: simpleContext,
+    subscribe: true,
+  });
+}
+
+customElements.define('tracked-context-consumer', TrackedContextConsumer);
+
+suite('htmlelement connection tracking', () => {
+  let container: HTMLElement;
+
+  setup(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  for (const style of ['', 'display: none', 'display: contents']) {
+    test(`provider is connected with style "${style}"`, async () => {
+      const host = document.createElement('div');
+      host.setAttribute('style', style);
+      const provider = new ContextProvider(host, {
+        context: simpleContext,
+        initialValue: 1000,
+      });
+
+      container.appendChild(host);
+      await nextMutation();
+
+      host.innerHTML = '<tracked-context-consumer></tracked-context-consumer>';
+      await nextMutation();
+
+      const consumer = host.querySelector(
+        'tracked-context-consumer'
+      ) as TrackedContextConsumer;
+      assert.strictEqual(consumer.consumer.value, 1000);
+
+      provider.setValue(500);
+      assert.strictEqual(consumer.consumer.value, 500);
+    });
+  }
+
+  test('provider is disconnected with its ancestor', async () => {
+    const parent = document.createElement('div');
+    parent.attachShadow({mode: 'open'});
+    const host = document.createElement('div');
+    parent.shadowRoot!.appendChild(host);
+    container.appendChild(parent);
+    new ContextProvider(host, {context: simpleContext, initialValue: 1000});
+
+    const child = host.appendChild(document.createElement('div'));
+    const values: number[] = [];
+    const request = () =>
+      child.dispatchEvent(
+        new ContextEvent(simpleContext, (value) => values.push(value))
+      );
+
+    request();
+    assert.deepEqual(values, [1000]);
+
+    parent.remove();
+    await nextMutation();
+    request();
+    assert.deepEqual(values, [1000]);
+
+    container.appendChild(parent);
+    await nextMutation();
+    request();
+    assert.deepEqual(values, [1000, 1000]);
+  });
+
+  test('consumer connects after its creation', async () => {
+    new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1000,
+    });
+
+    const consumer = document.createElement(
+      'tracked-context-consumer'
+    ) as TrackedContextConsumer;
+    assert.isUndefined(consumer.consumer.value);
+
+    container.appendChild(consumer);
+    await nextMutation();
+    assert.strictEqual(consumer.consumer.value, 1000);
+  });
+
+  test('consumer connects in an existing shadow root', async () => {
+    const parent = document.createElement('div');
+    parent.attachShadow({mode: 'open'}).innerHTML = '<div></div>';
+    container.appendChild(parent);
+    const host = parent.shadowRoot!.querySelector('div') as HTMLElement;
+    new ContextProvider(host, {context: simpleContext, initialValue: 1000});
+    await nextMutation();
+
+    const consumer = document.createElement(
+      'tracked-context-consumer'
+    ) as TrackedContextConsumer;
+    host.appendChild(consumer);
+    await nextMutation();
+    assert.strictEqual(consumer.consumer.value, 1000);
+
+    // Moved to another shadow root
+    const other = document.createElement('div');
+    other.attachShadow({mode: 'open'});
+    container.appendChild(other);
+    new ContextProvider(other, {context: simpleContext, initialValue: 500});
+    await nextMutation();
+
+    consumer.remove();
+    await nextMutation();
+    other.shadowRoot!.appendChild(consumer);
+    await nextMutation();
+    assert.strictEqual(consumer.consumer.value, 500);
+  });
+
+  test('consumer unsubscribes on disconnection', async () => {
+    const provider = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1000,
+    });
+
+    const consumer = document.createElement(
+      'tracked-context-consumer'
+    ) as TrackedContextConsumer;
+    container.appendChild(consumer);
+    await nextMutation();
+    assert.strictEqual(consumer.consumer.value, 1000);
+
+    consumer.remove();
+    await nextMutation();
+    provider.setValue(500);
+    assert.strictEqual(consumer.consumer.value, 1000);
+  });
+
+  test('disposed controllers stop tracking the connection', async () => {
+    const host = document.createElement('div');
+    const provider = new ContextProvider(host, {
+      context: simpleContext,
+      initialValue: 1000,
+    });
+    provider.dispose();
+
+    container.appendChild(host);
+    await nextMutation();
+
+    const consumer = document.createElement(
+      'tracked-context-consumer'
+    ) as TrackedContextConsumer;
+    consumer.consumer.dispose();
+    host.appendChild(consumer);
+    await nextMutation();
+    assert.isUndefined(consumer.consumer.value);
+
+    const other = new ContextConsumer(
+      host.appendChild(document.createElement('div')),
+      {
+        context: simpleContext,
+      }
+    );
+    assert.isUndefined(other.value);
+  });
+});
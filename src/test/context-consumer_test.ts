@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {customElement, FASTElement} from '@microsoft/fast-element';
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+  defineConsumer,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+@customElement('simple-context-provider')
+class SimpleContextProvider extends FASTElement {
+  private provider = new ContextProvider(this, {
+    context: simpleContext,
+    initialValue: 1000,
+  });
+
+  public setValue(value: number) {
+    this.provider.setValue(value);
+  }
+}
+
+class VanillaContextConsumer extends HTMLElement {
+  public value = 0;
+
+  private consumer?: ContextConsumer<typeof simpleContext, this>;
+
+  connectedCallback() {
+    if (!this.consumer) {
+      this.consumer = defineConsumer(this, 'value', {
+        context: simpleContext,
+        subscribe: true,
+      }).controller;
+    }
+  }
+}
+
+customElements.define('vanilla-context-consumer', VanillaContextConsumer);
+
+suite('htmlelement-context-consumer', () => {
+  let provider: SimpleContextProvider;
+  let container: HTMLElement;
+
+  setup(async () => {
+    container = document.createElement('div');
+    container.innerHTML = `
+       <simple-context-provider>
+         <div id="plain"></div>
+         <vanilla-context-consumer></vanilla-context-consumer>
+       </simple-context-provider>
+     `;
+    document.body.appendChild(container);
+
+    provider = container.querySelector(
+      'simple-context-provider'
+    ) as SimpleContextProvider;
+    assert.isDefined(provider);
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  test(`plain element receives a context`, async () => {
+    const consumer = new ContextConsumer(
+      container.querySelector('#plain') as HTMLElement,
+      {context: simpleContext, subscribe: true}
+    );
+    assert.strictEqual(consumer.value, 1000);
+
+    provider.setValue(500);
+    assert.strictEqual(consumer.value, 500);
+  });
+
+  test(`plain element receives a context once`, async () => {
+    let callCount = 0;
+    const consumer = new ContextConsumer(
+      container.querySelector('#plain') as HTMLElement,
+      {
+        context: simpleContext,
+        callback: () => {
+          callCount++;
+        },
+      }
+    );
+    assert.strictEqual(consumer.value, 1000);
+    assert.strictEqual(callCount, 1);
+
+    provider.setValue(500);
+    assert.strictEqual(consumer.value, 1000);
+    assert.strictEqual(callCount, 1);
+  });
+
+  test(`vanilla custom element receives a context`, async () => {
+    const consumer = container.querySelector(
+      'vanilla-context-consumer'
+    ) as VanillaContextConsumer;
+    assert.strictEqual(consumer.value, 1000);
+
+    provider.setValue(500);
+    assert.strictEqual(consumer.value, 500);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {customElement, FASTElement} from '@microsoft/fast-element';
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  ContextRoot,
+  createContext,
+  defineConsumer,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const themeContext = createContext<string>('theme-context', {
+  defaultValue: 'light',
+  name: 'Theme',
+});
+
+@customElement('theme-context-consumer')
+class ThemeContextConsumer extends FASTElement {
+  public theme = '';
+
+  constructor() {
+    super();
+    defineConsumer(this, 'theme', {context: themeContext, subscribe: true});
+  }
+}
+
+suite('context default value', () => {
+  let root: ContextRoot;
+  let container: HTMLElement;
+  let consumerHost: HTMLElement;
+
+  setup(async () => {
+    container = document.createElement('div');
+    container.innerHTML = '<div id="consumer"></div>';
+    document.body.appendChild(container);
+    root = new ContextRoot();
+    root.attach(container);
+    consumerHost = container.querySelector('#consumer') as HTMLElement;
+  });
+
+  teardown(() => {
+    root.detach(container);
+    container.remove();
+  });
+
+  test('consumer falls back to the default value', async () => {
+    const values: string[] = [];
+    const consumer = new ContextConsumer(consumerHost, {
+      context: themeContext,
+      callback: (value) => values.push(value),
+    });
+    assert.strictEqual(consumer.value, 'light');
+    assert.strictEqual(consumer.status, 'pending');
+    assert.deepEqual(values, ['light']);
+  });
+
+  test('consumer switches to a late provider', async () => {
+    const consumer = new ContextConsumer(consumerHost, {
+      context: themeContext,
+      subscribe: true,
+    });
+    assert.strictEqual(consumer.value, 'light');
+
+    const provider = new ContextProvider(container, {
+      context: themeContext,
+      initialValue: 'dark',
+    });
+    assert.strictEqual(consumer.value, 'dark');
+    assert.strictEqual(consumer.status, 'provided');
+
+    provider.dispose();
+    assert.strictEqual(consumer.value, 'light');
+    assert.strictEqual(consumer.status, 'orphaned');
+  });
+
+  test('provided value takes precedence on the default value', async () => {
+    new ContextProvider(container, {
+      context: themeContext,
+      initialValue: 'dark',
+    });
+    const values: string[] = [];
+    new ContextConsumer(consumerHost, {
+      context: themeContext,
+      callback: (value) => values.push(value),
+    });
+    assert.deepEqual(values, ['dark']);
+  });
+
+  test('defined consumer property is set to the default value', async () => {
+    const element = document.createElement(
+      'theme-context-consumer'
+    ) as ThemeContextConsumer;
+    consumerHost.appendChild(element);
+    assert.strictEqual(element.theme, 'light');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  ContextRoot,
+  createContext,
+  definePortal,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+suite('context portal', () => {
+  let container: HTMLElement;
+  let owner: HTMLElement;
+  let portal: HTMLElement;
+  let consumerHost: HTMLElement;
+  let provider: ContextProvider<typeof simpleContext>;
+  let removePortal: () => void;
+
+  setup(() => {
+    container = document.createElement('div');
+    container.innerHTML = '<div id="owner"></div>';
+    document.body.appendChild(container);
+    provider = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1,
+    });
+    owner = container.querySelector('#owner') as HTMLElement;
+
+    portal = document.createElement('div');
+    portal.innerHTML = '<span></span>';
+    document.body.appendChild(portal);
+    removePortal = definePortal(portal, owner);
+    consumerHost = portal.querySelector('span') as HTMLElement;
+  });
+
+  teardown(() => {
+    removePortal();
+    portal.remove();
+    container.remove();
+  });
+
+  test('requests are resolved against the owner providers', () => {
+    const consumer = new ContextConsumer(consumerHost, {
+      context: simpleContext,
+      subscribe: true,
+    });
+    assert.strictEqual(consumer.value, 1);
+    assert.strictEqual(consumer.providerHost, container);
+
+    provider.setValue(2);
+    assert.strictEqual(consumer.value, 2);
+  });
+
+  test('consumers are re-parented to a provider added to the owner', () => {
+    const consumer = new ContextConsumer(consumerHost, {
+      context: simpleContext,
+      subscribe: true,
+    });
+    const ownerProvider = new ContextProvider(owner, {
+      context: simpleContext,
+      initialValue: 3,
+    });
+    assert.strictEqual(consumer.value, 3);
+
+    ownerProvider.dispose();
+    assert.strictEqual(consumer.value, 1);
+  });
+
+  test('consumers are re-parented to a provider added in the portal', () => {
+    const consumer = new ContextConsumer(consumerHost, {
+      context: simpleContext,
+      subscribe: true,
+    });
+    const portalProvider = new ContextProvider(portal, {
+      context: simpleContext,
+      initialValue: 6,
+    });
+    assert.strictEqual(consumer.value, 6);
+    assert.strictEqual(consumer.providerHost, portal);
+
+    provider.setValue(2);
+    assert.strictEqual(consumer.value, 6);
+
+    portalProvider.dispose();
+    assert.strictEqual(consumer.value, 2);
+  });
+
+  test('requests are buffered by a root for the owner', () => {
+    const root = new ContextRoot();
+    root.attach(document.body);
+    // Move the portal to an owner without provider
+    removePortal();
+    const lateOwner = document.createElement('div');
+    document.body.appendChild(lateOwner);
+    removePortal = definePortal(portal, lateOwner);
+    const consumer = new ContextConsumer(consumerHost, {
+      context: simpleContext,
+      subscribe: true,
+    });
+    assert.deepEqual(
+      root.getPendingRequests().map(({element}) => element),
+      [consumerHost]
+    );
+
+    new ContextProvider(lateOwner, {context: simpleContext, initialValue: 4});
+    assert.strictEqual(consumer.value, 4);
+    root.detach(document.body);
+    lateOwner.remove();
+  });
+
+  test('update requests are forwarded to the owner providers', () => {
+    const consumer = new ContextConsumer(consumerHost, {
+      context: simpleContext,
+      subscribe: true,
+    });
+    assert.isTrue(consumer.setValue(5));
+    assert.strictEqual(provider.value, 5);
+  });
+
+  test('removing the portal restores the DOM resolution', () => {
+    removePortal();
+    const consumer = new ContextConsumer(consumerHost, {
+      context: simpleContext,
+      subscribe: true,
+    });
+    assert.isUndefined(consumer.value);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  ContextRoot,
+  createContext,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+import {memorySuite} from './test_util.js';
+
+const simpleContext = createContext<number>('simple-context');
+
+suite('context root', () => {
+  let root: ContextRoot;
+  let container: HTMLElement;
+  let first: HTMLElement;
+  let second: HTMLElement;
+
+  setup(() => {
+    container = document.createElement('div');
+    container.innerHTML = `
+       <div id="first"><div class="consumer"></div></div>
+       <div id="second"><div class="consumer"></div></div>
+     `;
+    document.body.appendChild(container);
+    root = new ContextRoot();
+    root.attach(container);
+
+    first = container.querySelector('#first') as HTMLElement;
+    second = container.querySelector('#second') as HTMLElement;
+  });
+
+  teardown(() => {
+    root.detach(container);
+    container.remove();
+  });
+
+  const consume = (element: Element) =>
+    new ContextConsumer(element as HTMLElement, {
+      context: simpleContext,
+      subscribe: true,
+    });
+
+  test('only requests within the provider are re-dispatched', async () => {
+    const firstConsumer = consume(first.querySelector('.consumer')!);
+    const secondConsumer = consume(second.querySelector('.consumer')!);
+    let secondRequests = 0;
+    second.addEventListener('context-request', () => {
+      secondRequests++;
+    });
+
+    new ContextProvider(first, {context: simpleContext, initialValue: 1});
+    assert.strictEqual(firstConsumer.value, 1);
+    assert.isUndefined(secondConsumer.value);
+    assert.strictEqual(secondRequests, 0);
+
+    new ContextProvider(second, {context: simpleContext, initialValue: 2});
+    assert.strictEqual(secondConsumer.value, 2);
+    assert.strictEqual(secondRequests, 1);
+  });
+
+  test('one-shot requests are not buffered by default', async () => {
+    const consumer = new ContextConsumer(
+      first.querySelector('.consumer') as HTMLElement,
+      {context: simpleContext}
+    );
+    new ContextProvider(first, {context: simpleContext, initialValue: 1});
+    assert.isUndefined(consumer.value);
+  });
+
+  test('one-shot requests are buffered on demand', async () => {
+    root.detach(container);
+    root = new ContextRoot({bufferOneShotRequests: true});
+    root.attach(container);
+
+    let callCount = 0;
+    const consumer = new ContextConsumer(
+      first.querySelector('.consumer') as HTMLElement,
+      {
+        context: simpleContext,
+        callback: () => {
+          callCount++;
+        },
+      }
+    );
+    const provider = new ContextProvider(first, {
+      context: simpleContext,
+      initialValue: 1,
+    });
+    assert.strictEqual(consumer.value, 1);
+    assert.strictEqual(callCount, 1);
+    assert.lengthOf(root.getPendingRequests(), 0);
+
+    provider.setValue(2);
+    new ContextProvider(container, {context: simpleContext, initialValue: 3});
+    assert.strictEqual(consumer.value, 1);
+    assert.strictEqual(callCount, 1);
+  });
+
+  test('requests within shadow roots are re-dispatched', async () => {
+    const host = first.querySelector('.consumer')!;
+    host.attachShadow({mode: 'open'}).innerHTML = '<span></span>';
+    const consumer = consume(host.shadowRoot!.querySelector('span')!);
+
+    new ContextProvider(first, {context: simpleContext, initialValue: 1});
+    assert.strictEqual(consumer.value, 1);
+  });
+
+  test('requests of slotted elements are re-dispatched', async () => {
+    first.attachShadow({mode: 'open'}).innerHTML =
+      '<div id="inner"><slot></slot></div>';
+    const inner = first.shadowRoot!.querySelector('#inner') as HTMLElement;
+    const consumer = consume(first.querySelector('.consumer')!);
+
+    new ContextProvider(inner, {context: simpleContext, initialValue: 1});
+    assert.strictEqual(consumer.value, 1);
+  });
+});
+
+suite('context root inspection', () => {
+  const namedContext = createContext<number>('named-context', {
+    name: 'Named',
+  });
+  let container: HTMLElement;
+  let element: HTMLElement;
+
+  setup(() => {
+    container = document.createElement('div');
+    container.innerHTML = '<div id="first"><div class="consumer"></div></div>';
+    document.body.appendChild(container);
+    element = container.querySelector('.consumer') as HTMLElement;
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  test('unsatisfied requests are listed', async () => {
+    const root = new ContextRoot();
+    root.attach(container);
+    new ContextConsumer(element, {context: namedContext, subscribe: true});
+    new ContextConsumer(element, {context: simpleContext, subscribe: true});
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const pending = root.getPendingRequests();
+    assert.deepEqual(
+      pending.map(({name, element}) => [name, element]),
+      [
+        ['Named', element],
+        ['simple-context', element],
+      ]
+    );
+    assert.isAbove(pending[0].waitingTime, 0);
+
+    new ContextProvider(container.querySelector('#first') as HTMLElement, {
+      context: namedContext,
+      initialValue: 1,
+    });
+    assert.deepEqual(
+      root.getPendingRequests().map(({context}) => context),
+      [simpleContext]
+    );
+    root.detach(container);
+  });
+
+  test('waiting time is kept when re-dispatched', async () => {
+    const root = new ContextRoot();
+    root.attach(container);
+    new ContextConsumer(element, {context: simpleContext, subscribe: true});
+    // Wait twice the asserted time: `performance.now()` is coarsened by the
+    // browsers (e.g. Firefox and WebKit clamp it) so the measured time may be
+    // shorter than the timer delay.
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    // A provider announcement not satisfying the request
+    container
+      .querySelector('#first')!
+      .dispatchEvent(
+        Object.assign(
+          new Event('context-provider', {bubbles: true, composed: true}),
+          {context: simpleContext}
+        )
+      );
+    const [request] = root.getPendingRequests();
+    assert.isAtLeast(request.waitingTime, 5);
+    root.detach(container);
+  });
+
+  test('a warning is emitted for requests pending too long', async () => {
+    const warnings: string[] = [];
+    const root = new ContextRoot({
+      timeout: 10,
+      onTimeout: ({name}) => warnings.push(name),
+    });
+    root.attach(container);
+    new ContextConsumer(element, {context: namedContext, subscribe: true});
+    new ContextConsumer(element, {context: simpleContext, subscribe: true});
+    new ContextProvider(container.querySelector('#first') as HTMLElement, {
+      context: simpleContext,
+      initialValue: 1,
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assert.deepEqual(warnings, ['Named']);
+    root.detach(container);
+  });
+
+  test('requests of removed elements are ignored', async () => {
+    const warnings: string[] = [];
+    const root = new ContextRoot({
+      timeout: 10,
+      onTimeout: ({name}) => warnings.push(name),
+    });
+    root.attach(container);
+    new ContextConsumer(element, {context: namedContext, subscribe: true});
+    element.remove();
+
+    assert.lengthOf(root.getPendingRequests(), 0);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assert.deepEqual(warnings, []);
+    root.detach(container);
+  });
+});
+
+memorySuite('context root memory leak test', () => {
+  let root: ContextRoot;
+  let container: HTMLElement;
+
+  // Make a big array set on an expando to exaggerate any leaked DOM
+  const big = () => new Uint8Array(1024 * 10).fill(0);
+
+  setup(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = new ContextRoot();
+    root.attach(container);
+  });
+
+  teardown(() => {
+    root.detach(container);
+    container.remove();
+  });
+
+  test('requests of removed consumers should not leak', async () => {
+    const neverProvided = createContext<number>(Symbol('never-provided'));
+    window.gc();
+    const heap = performance.memory.usedJSHeapSize;
+    for (let i = 0; i < 1000; i++) {
+      const element = document.createElement('div');
+      (element as any).heapExpandoProp = big();
+      container.appendChild(element);
+      new ContextConsumer(element, {context: neverProvided, subscribe: true});
+      element.remove();
+      if (i % 30 === 0) {
+        window.gc();
+      }
+    }
+    const pendingCount = () =>
+      (
+        root as unknown as {
+          pendingContextRequests: Map<unknown, {requests: unknown[]}>;
+        }
+      ).pendingContextRequests.get(neverProvided)?.requests.length ?? 0;
+    // Let the connection MutationObserver deliver its records (they hold the
+    // removed elements) then the finalization callbacks run; collect again
+    // after each wait.
+    for (let i = 0; i < 10 && pendingCount() >= 50; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      window.gc();
+    }
+    assert.isAtMost(
+      performance.memory.usedJSHeapSize / heap - 1,
+      // Allow a 10% margin of heap growth; due to the 10kb expando, an actual
+      // DOM leak is orders of magnitude larger.
+      0.1,
+      'memory leak detected'
+    );
+    // Nearly all requests must be pruned; a few elements may not be
+    // collected yet.
+    assert.isBelow(pendingCount(), 50);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+  setContextErrorHandler,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const countContext = createContext<number>('validated-context', {
+  name: 'Count',
+  validate: (value): value is number => typeof value === 'number',
+});
+
+suite('context validation', () => {
+  let container: HTMLElement;
+  let consumerHost: HTMLElement;
+
+  setup(() => {
+    container = document.createElement('div');
+    container.innerHTML = '<div id="consumer"></div>';
+    document.body.appendChild(container);
+    consumerHost = container.querySelector('#consumer') as HTMLElement;
+  });
+
+  teardown(() => {
+    container.remove();
+    setContextErrorHandler();
+  });
+
+  test('provider rejects an invalid initial value', () => {
+    assert.throws(
+      () =>
+        new ContextProvider(container, {
+          context: countContext,
+          initialValue: '1' as unknown as number,
+        }),
+      TypeError,
+      'Invalid value of type string for context Count'
+    );
+  });
+
+  test('provider rejects invalid values', () => {
+    const provider = new ContextProvider(container, {
+      context: countContext,
+      initialValue: 1,
+    });
+    const consumer = new ContextConsumer(consumerHost, {
+      context: countContext,
+      subscribe: true,
+    });
+
+    assert.throws(
+      () => provider.setValue(null as unknown as number),
+      TypeError,
+      'Invalid value of type object for context Count'
+    );
+    assert.strictEqual(provider.value, 1);
+    assert.strictEqual(consumer.value, 1);
+  });
+
+  test('consumer ignores invalid values from foreign providers', () => {
+    const errors: unknown[] = [];
+    setContextErrorHandler((error, host, context) => {
+      errors.push(error);
+      assert.strictEqual(host, consumerHost);
+      assert.strictEqual(context, countContext);
+    });
+    let foreignValue: unknown = 'invalid';
+    container.addEventListener('context-request', (ev) => {
+      ev.stopPropagation();
+      ev.callback(foreignValue);
+    });
+
+    const consumer = new ContextConsumer(consumerHost, {
+      context: countContext,
+      validate: true,
+    });
+    assert.isUndefined(consumer.value);
+    assert.lengthOf(errors, 1);
+    assert.instanceOf(errors[0], TypeError);
+
+    foreignValue = 2;
+    consumer.hostConnected();
+    assert.strictEqual(consumer.value, 2);
+  });
+
+  test('consumer does not validate by default', () => {
+    container.addEventListener('context-request', (ev) => {
+      ev.stopPropagation();
+      ev.callback('invalid');
+    });
+    const consumer = new ContextConsumer(consumerHost, {
+      context: countContext,
+    });
+    assert.strictEqual(consumer.value, 'invalid' as unknown as number);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {Context, consume, provide} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+import {
+  DOM,
+  FASTElement,
+  attr,
+  customElement,
+  html,
+  nullableNumberConverter,
+} from '@microsoft/fast-element';
+
+const simpleContext = 'simple-context' as Context<'simple-context', number>;
+
+@customElement({
+  name: 'simple-provider',
+  template: html`<slot></slot>`,
+})
+class SimpleProvider extends FASTElement {
+  @provide({context: simpleContext})
+  value = 0;
+}
+
+suite('@consume', () => {
+  let container: HTMLElement;
+
+  setup(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  test('on a property renders the context value', async () => {
+    @customElement({
+      name: 'consume-property',
+      template: html`<span>${(x) => x.value}</span>`,
+    })
+    class ConsumeProperty extends FASTElement {
+      @consume({context: simpleContext, subscribe: true})
+      value = -1;
+    }
+
+    container.innerHTML = `
+      <simple-provider>
+        <consume-property></consume-property>
+      </simple-provider>
+    `;
+    const provider = container.querySelector(
+      'simple-provider'
+    ) as SimpleProvider;
+    const consumer = container.querySelector(
+      'consume-property'
+    ) as ConsumeProperty;
+
+    DOM.processUpdates();
+    assert.equal(consumer.value, 0);
+    assert.equal(consumer.shadowRoot?.querySelector('span')?.textContent, '0');
+
+    provider.value = 1;
+    DOM.processUpdates();
+    assert.equal(consumer.value, 1);
+    // Confirm consumer is reactive.
+    assert.equal(consumer.shadowRoot?.querySelector('span')?.textContent, '1');
+  });
+
+  test('on an attribute renders the context value', async () => {
+    @customElement({
+      name: 'consume-attribute',
+      template: html`<span>${(x) => x.value}</span>`,
+    })
+    class ConsumeAttribute extends FASTElement {
+      @consume({context: simpleContext, subscribe: true})
+      @attr({converter: nullableNumberConverter})
+      value = -1;
+    }
+
+    container.innerHTML = `
+      <simple-provider>
+        <consume-attribute></consume-attribute>
+      </simple-provider>
+    `;
+    const provider = container.querySelector(
+      'simple-provider'
+    ) as SimpleProvider;
+    const consumer = container.querySelector(
+      'consume-attribute'
+    ) as ConsumeAttribute;
+
+    DOM.processUpdates();
+    assert.equal(consumer.value, 0);
+    assert.equal(consumer.getAttribute('value'), '0');
+
+    provider.value = 1;
+    DOM.processUpdates();
+    assert.equal(consumer.value, 1);
+    assert.equal(consumer.getAttribute('value'), '1');
+    assert.equal(consumer.shadowRoot?.querySelector('span')?.textContent, '1');
+  });
+
+  test('without subscription only receives the first value', async () => {
+    @customElement({
+      name: 'consume-once',
+      template: html`<span>${(x) => x.value}</span>`,
+    })
+    class ConsumeOnce extends FASTElement {
+      @consume({context: simpleContext})
+      value = -1;
+    }
+
+    container.innerHTML = `
+      <simple-provider>
+        <consume-once></consume-once>
+      </simple-provider>
+    `;
+    const provider = container.querySelector(
+      'simple-provider'
+    ) as SimpleProvider;
+    const consumer = container.querySelector('consume-once') as ConsumeOnce;
+
+    DOM.processUpdates();
+    assert.equal(consumer.value, 0);
+
+    provider.value = 1;
+    DOM.processUpdates();
+    assert.equal(consumer.value, 0);
+    assert.equal(consumer.shadowRoot?.querySelector('span')?.textContent, '0');
+  });
+});
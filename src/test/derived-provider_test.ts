@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+  defineDerivedProvider,
+  DerivedContextProvider,
+  shallowEqual,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const userContext = createContext<string>('user-context');
+const workspaceContext = createContext<string>('workspace-context');
+const permissionsContext = createContext<{canEdit: boolean}>(
+  'permissions-context'
+);
+
+suite('derived context provider', () => {
+  let container: HTMLElement;
+  let derivedHost: HTMLElement;
+  let userProvider: ContextProvider<typeof userContext>;
+  let workspaceProvider: ContextProvider<typeof workspaceContext>;
+  let computeCount: number;
+
+  setup(() => {
+    container = document.createElement('div');
+    container.innerHTML = '<div id="derived"><span></span></div>';
+    document.body.appendChild(container);
+    userProvider = new ContextProvider(container, {
+      context: userContext,
+      initialValue: 'alice',
+    });
+    workspaceProvider = new ContextProvider(container, {
+      context: workspaceContext,
+      initialValue: 'alice-workspace',
+    });
+    derivedHost = container.querySelector('#derived') as HTMLElement;
+    computeCount = 0;
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  const derive = () =>
+    new DerivedContextProvider(derivedHost, {
+      context: permissionsContext,
+      contexts: [userContext, workspaceContext] as const,
+      compute: (user, workspace) => {
+        computeCount++;
+        return {canEdit: workspace?.startsWith(`${user}-`) ?? false};
+      },
+      equals: shallowEqual,
+    });
+
+  const consume = () =>
+    new ContextConsumer(derivedHost.querySelector('span') as HTMLElement, {
+      context: permissionsContext,
+      subscribe: true,
+    });
+
+  test('value is computed from the source contexts', () => {
+    derive();
+    const consumer = consume();
+    assert.deepEqual(consumer.value, {canEdit: true});
+    assert.strictEqual(computeCount, 1);
+  });
+
+  test('value is computed again when a source changes', () => {
+    derive();
+    const consumer = consume();
+    userProvider.setValue('bob');
+    assert.deepEqual(consumer.value, {canEdit: false});
+
+    workspaceProvider.setValue('bob-workspace');
+    assert.deepEqual(consumer.value, {canEdit: true});
+    assert.strictEqual(computeCount, 3);
+  });
+
+  test('value is computed again when a source provider is gone', () => {
+    derive();
+    const consumer = consume();
+    workspaceProvider.dispose();
+    assert.deepEqual(consumer.value, {canEdit: false});
+    assert.strictEqual(computeCount, 2);
+  });
+
+  test('consumers are not notified of equal results', () => {
+    derive();
+    let callCount = 0;
+    new ContextConsumer(derivedHost.querySelector('span') as HTMLElement, {
+      context: permissionsContext,
+      subscribe: true,
+      callback: () => {
+        callCount++;
+      },
+    });
+    workspaceProvider.setValue('alice-other');
+    assert.strictEqual(computeCount, 2);
+    assert.strictEqual(callCount, 1);
+  });
+
+  test('update requests are rejected by default', () => {
+    derive();
+    const consumer = consume();
+    assert.isFalse(consumer.setValue({canEdit: false}));
+    assert.deepEqual(consumer.value, {canEdit: true});
+  });
+
+  test('update requests are accepted with a policy', () => {
+    new DerivedContextProvider(derivedHost, {
+      context: permissionsContext,
+      contexts: [userContext] as const,
+      compute: () => ({canEdit: true}),
+      onUpdateRequest: () => true,
+    });
+    const consumer = consume();
+    assert.isTrue(consumer.setValue({canEdit: false}));
+    assert.deepEqual(consumer.value, {canEdit: false});
+  });
+
+  test('disposed provider stops computing', () => {
+    const {dispose} = defineDerivedProvider(derivedHost, {
+      context: permissionsContext,
+      contexts: [userContext] as const,
+      compute: () => {
+        computeCount++;
+        return {canEdit: true};
+      },
+    });
+    dispose();
+    userProvider.setValue('bob');
+    assert.strictEqual(computeCount, 1);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+  deepEqual,
+  shallowEqual,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+interface Settings {
+  theme: string;
+  sizes: number[];
+}
+
+const settingsContext = createContext<Settings>('settings-context');
+
+suite('equality', () => {
+  test('shallowEqual compares own properties', () => {
+    const sizes = [1, 2];
+    assert.isTrue(shallowEqual(NaN, NaN));
+    assert.isTrue(shallowEqual({a: 1, sizes}, {a: 1, sizes}));
+    assert.isTrue(shallowEqual(sizes, [1, 2]));
+    assert.isFalse(shallowEqual({a: 1, sizes}, {a: 1, sizes: [1, 2]}));
+    assert.isFalse(shallowEqual<object>({a: 1}, {a: 1, b: 2}));
+    assert.isFalse(shallowEqual<object>({0: 1, 1: 2}, [1, 2]));
+    assert.isFalse(shallowEqual<unknown>({}, null));
+  });
+
+  test('deepEqual compares nested values', () => {
+    assert.isTrue(
+      deepEqual(
+        {a: [1, {b: 'c'}], d: new Date(0)},
+        {a: [1, {b: 'c'}], d: new Date(0)}
+      )
+    );
+    assert.isFalse(deepEqual({a: [1, {b: 'c'}]}, {a: [1, {b: 'd'}]}));
+    assert.isFalse(deepEqual(new Date(0), new Date(1)));
+    assert.isFalse(deepEqual<object>({a: undefined}, {b: undefined}));
+  });
+
+  test('built-in objects are compared by their content', () => {
+    for (const equal of [shallowEqual, deepEqual]) {
+      assert.isTrue(equal(new Map([[1, 2]]), new Map([[1, 2]])));
+      assert.isFalse(equal(new Map([[1, 2]]), new Map()));
+      assert.isFalse(equal(new Map([[1, 2]]), new Map([[1, 3]])));
+      assert.isTrue(equal(new Set([1, 2]), new Set([2, 1])));
+      assert.isFalse(equal(new Set([1]), new Set([2])));
+      assert.isTrue(equal(/a/g, /a/g));
+      assert.isFalse(equal(/a/, /b/));
+      assert.isFalse(equal(/a/, /a/i));
+      assert.isFalse(equal(new Date(0), new Date(1)));
+    }
+    assert.isTrue(deepEqual(new Map([[1, {a: 1}]]), new Map([[1, {a: 1}]])));
+    assert.isFalse(
+      shallowEqual(new Map([[1, {a: 1}]]), new Map([[1, {a: 1}]]))
+    );
+  });
+
+  suite('provider equality', () => {
+    let container: HTMLElement;
+
+    setup(() => {
+      container = document.createElement('div');
+      container.innerHTML = '<div id="consumer"></div>';
+      document.body.appendChild(container);
+    });
+
+    teardown(() => {
+      container.remove();
+    });
+
+    const consume = (callback: () => void) =>
+      new ContextConsumer(container.querySelector('#consumer') as HTMLElement, {
+        context: settingsContext,
+        subscribe: true,
+        callback,
+      });
+
+    test('consumers are not notified of equal values', () => {
+      const provider = new ContextProvider(container, {
+        context: settingsContext,
+        initialValue: {theme: 'light', sizes: [1]},
+        equals: deepEqual,
+      });
+      let callCount = 0;
+      consume(() => {
+        callCount++;
+      });
+
+      const value = provider.value;
+      provider.setValue({theme: 'light', sizes: [1]});
+      assert.strictEqual(callCount, 1);
+      assert.strictEqual(provider.value, value);
+
+      provider.setValue({theme: 'light', sizes: [1, 2]});
+      assert.strictEqual(callCount, 2);
+
+      provider.setValue({theme: 'light', sizes: [1, 2]}, true);
+      assert.strictEqual(callCount, 3);
+    });
+
+    test('custom equality function', () => {
+      const provider = new ContextProvider(container, {
+        context: settingsContext,
+        initialValue: {theme: 'light', sizes: [1]},
+        equals: (a, b) => a.theme === b.theme,
+      });
+      let callCount = 0;
+      consume(() => {
+        callCount++;
+      });
+
+      provider.setValue({theme: 'light', sizes: []});
+      assert.strictEqual(callCount, 1);
+      provider.setValue({theme: 'dark', sizes: []});
+      assert.strictEqual(callCount, 2);
+    });
+  });
+});
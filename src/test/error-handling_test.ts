@@ -0,0 +1,86 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  Context,
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+  setContextErrorHandler,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+suite('consumer callback errors', () => {
+  let container: HTMLElement;
+  let failing: HTMLElement;
+  let healthy: HTMLElement;
+
+  setup(() => {
+    container = document.createElement('div');
+    container.innerHTML = `
+       <div id="failing"></div>
+       <div id="healthy"></div>
+     `;
+    document.body.appendChild(container);
+    failing = container.querySelector('#failing') as HTMLElement;
+    healthy = container.querySelector('#healthy') as HTMLElement;
+  });
+
+  teardown(() => {
+    setContextErrorHandler();
+    container.remove();
+  });
+
+  const consume = () => {
+    new ContextConsumer(failing, {
+      context: simpleContext,
+      subscribe: true,
+      callback: (value) => {
+        if (value > 10) {
+          throw new Error('Too large');
+        }
+      },
+    });
+    return new ContextConsumer(healthy, {
+      context: simpleContext,
+      subscribe: true,
+    });
+  };
+
+  test('provider reports errors to its handler', async () => {
+    const errors: Array<[string, Element, Context<unknown, unknown>]> = [];
+    const provider = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1,
+      onError: (error, consumerHost, context) => {
+        errors.push([(error as Error).message, consumerHost, context]);
+      },
+    });
+    const consumer = consume();
+
+    provider.setValue(100);
+    assert.strictEqual(consumer.value, 100);
+    assert.deepEqual(errors, [['Too large', failing, simpleContext]]);
+  });
+
+  test('provider reports errors to the global handler', async () => {
+    const errors: unknown[] = [];
+    setContextErrorHandler((error) => errors.push(error));
+    const provider = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 100,
+    });
+    const consumer = consume();
+    assert.strictEqual(consumer.value, 100);
+    assert.lengthOf(errors, 1);
+
+    provider.setValue(200);
+    assert.strictEqual(consumer.value, 200);
+    assert.lengthOf(errors, 2);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  attr,
+  customElement,
+  FASTElement,
+  nullableNumberConverter,
+} from '@microsoft/fast-element';
+
+import {
+  ContextConsumer,
+  createContext,
+  defineConsumer,
+  defineProvider,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+@customElement('helper-context-provider')
+class HelperContextProvider extends FASTElement {
+  @attr({converter: nullableNumberConverter})
+  public value = 1000;
+
+  public other = 10;
+}
+
+@customElement('helper-context-consumer')
+class HelperContextConsumer extends FASTElement {
+  public value = 0;
+}
+
+suite('define helpers handle', () => {
+  let provider: HelperContextProvider;
+  let container: HTMLElement;
+
+  setup(async () => {
+    container = document.createElement('div');
+    container.innerHTML = `
+       <helper-context-provider>
+         <div id="plain"></div>
+       </helper-context-provider>
+     `;
+    document.body.appendChild(container);
+
+    provider = container.querySelector(
+      'helper-context-provider'
+    ) as HelperContextProvider;
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  const request = () =>
+    new ContextConsumer(container.querySelector('#plain') as HTMLElement, {
+      context: simpleContext,
+      subscribe: true,
+    });
+
+  test('disposing an observable provider', async () => {
+    const handle = defineProvider(provider, 'value', {context: simpleContext});
+    const consumer = request();
+    assert.strictEqual(consumer.value, 1000);
+
+    handle.dispose();
+    provider.value = 500;
+    assert.strictEqual(handle.controller.value, 1000);
+    assert.isUndefined(consumer.value);
+    assert.isUndefined(request().value);
+  });
+
+  test('disposing a provider restores the property', async () => {
+    const handle = defineProvider(provider, 'other', {context: simpleContext});
+    assert.isDefined(Reflect.getOwnPropertyDescriptor(provider, 'other')?.set);
+    provider.other = 20;
+    assert.strictEqual(request().value, 20);
+
+    handle.dispose();
+    assert.deepEqual(Reflect.getOwnPropertyDescriptor(provider, 'other'), {
+      value: 20,
+      writable: true,
+      enumerable: true,
+      configurable: true,
+    });
+    provider.other = 30;
+    assert.strictEqual(handle.controller.value, 20);
+  });
+
+  test('disposing a provider restores the property accessor', async () => {
+    let value = 10;
+    const descriptor = {
+      get: () => value,
+      set: (v: number) => {
+        value = v;
+      },
+      configurable: true,
+      enumerable: false,
+    };
+    Reflect.defineProperty(provider, 'other', descriptor);
+
+    const handle = defineProvider(provider, 'other', {context: simpleContext});
+    provider.other = 20;
+    assert.strictEqual(request().value, 20);
+
+    handle.dispose();
+    assert.deepEqual(
+      Reflect.getOwnPropertyDescriptor(provider, 'other'),
+      descriptor
+    );
+  });
+
+  test('swapping the provided property', async () => {
+    const consumer = request();
+    defineProvider(provider, 'value', {context: simpleContext}).dispose();
+    assert.isUndefined(request().value);
+
+    defineProvider(provider, 'other', {context: simpleContext});
+    assert.strictEqual(request().value, 10);
+    assert.isUndefined(consumer.value);
+  });
+
+  test('disposing a consumer', async () => {
+    defineProvider(provider, 'value', {context: simpleContext});
+    const consumer = document.createElement(
+      'helper-context-consumer'
+    ) as HelperContextConsumer;
+    provider.appendChild(consumer);
+    const handle = defineConsumer(consumer, 'value', {
+      context: simpleContext,
+      subscribe: true,
+    });
+    assert.strictEqual(consumer.value, 1000);
+
+    handle.dispose();
+    provider.value = 500;
+    assert.strictEqual(consumer.value, 1000);
+  });
+
+  test('consumer property is reset when the provider is gone', async () => {
+    const handle = defineProvider(provider, 'value', {context: simpleContext});
+    const consumer = document.createElement(
+      'helper-context-consumer'
+    ) as HelperContextConsumer;
+    provider.appendChild(consumer);
+    defineConsumer(consumer, 'value', {
+      context: simpleContext,
+      subscribe: true,
+    });
+    assert.strictEqual(consumer.value, 1000);
+
+    handle.dispose();
+    assert.isUndefined(consumer.value);
+  });
+});
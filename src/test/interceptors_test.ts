@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  addContextInterceptor,
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+  VETO,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+suite('value interceptors', () => {
+  let container: HTMLElement;
+  let consumer: ContextConsumer<typeof simpleContext>;
+
+  setup(() => {
+    container = document.createElement('div');
+    container.innerHTML = '<div id="consumer"></div>';
+    document.body.appendChild(container);
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  const consume = () =>
+    (consumer = new ContextConsumer(
+      container.querySelector('#consumer') as HTMLElement,
+      {context: simpleContext, subscribe: true}
+    ));
+
+  test('interceptors transform the value in order', () => {
+    const calls: [number, number | undefined][] = [];
+    const provider = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1,
+      interceptors: [
+        (value, previousValue) => {
+          calls.push([value, previousValue]);
+          return value * 2;
+        },
+        (value) => value + 1,
+      ],
+    });
+    consume();
+    assert.strictEqual(consumer.value, 3);
+
+    provider.setValue(2);
+    assert.strictEqual(consumer.value, 5);
+    assert.deepEqual(calls, [
+      [1, undefined],
+      [2, 3],
+    ]);
+  });
+
+  test('interceptors veto values', () => {
+    let callCount = 0;
+    const provider = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1,
+      interceptors: [(value) => (value < 0 ? VETO : value)],
+    });
+    new ContextConsumer(container.querySelector('#consumer') as HTMLElement, {
+      context: simpleContext,
+      subscribe: true,
+      callback: () => {
+        callCount++;
+      },
+    });
+
+    provider.setValue(-1);
+    assert.strictEqual(provider.value, 1);
+    assert.strictEqual(callCount, 1);
+  });
+
+  test('context interceptors run after the provider ones', () => {
+    const removeInterceptor = addContextInterceptor(simpleContext, (value) =>
+      Math.min(value, 10)
+    );
+    try {
+      const provider = new ContextProvider(container, {
+        context: simpleContext,
+        initialValue: 1,
+        interceptors: [(value) => value * 10],
+      });
+      consume();
+      assert.strictEqual(consumer.value, 10);
+
+      removeInterceptor();
+      provider.setValue(2);
+      assert.strictEqual(consumer.value, 20);
+    } finally {
+      removeInterceptor();
+    }
+  });
+
+  test('context interceptors apply to all providers of the context', () => {
+    const removeInterceptor = addContextInterceptor(simpleContext, (value) =>
+      value === 0 ? VETO : value
+    );
+    try {
+      const provider = new ContextProvider(container, {
+        context: simpleContext,
+        initialValue: 1,
+      });
+      consume();
+      provider.setValue(0);
+      assert.strictEqual(consumer.value, 1);
+    } finally {
+      removeInterceptor();
+    }
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {customElement, FASTElement, html} from '@microsoft/fast-element';
+import {
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+interface Theme {
+  color?: string;
+  font?: string;
+}
+
+const themeContext = createContext<Theme>('theme-context');
+
+@customElement({name: 'merging-provider-host', template: html`<slot></slot>`})
+class MergingProviderHost extends FASTElement {}
+
+suite('merging context provider', () => {
+  let container: HTMLElement;
+  let nestedHost: HTMLElement;
+  let consumerHost: HTMLElement;
+  let parent: ContextProvider<typeof themeContext>;
+
+  setup(() => {
+    container = document.createElement('div');
+    container.innerHTML = '<div id="nested"><span></span></div>';
+    document.body.appendChild(container);
+    parent = new ContextProvider(container, {
+      context: themeContext,
+      initialValue: {color: 'red', font: 'serif'},
+    });
+    nestedHost = container.querySelector('#nested') as HTMLElement;
+    consumerHost = nestedHost.querySelector('span') as HTMLElement;
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  const nest = (initialValue: Theme) =>
+    new ContextProvider(nestedHost, {
+      context: themeContext,
+      initialValue,
+      merge: (parentValue, localValue) => ({...parentValue, ...localValue}),
+    });
+
+  const consume = () =>
+    new ContextConsumer(consumerHost, {context: themeContext, subscribe: true});
+
+  test('local value is merged with the parent value', () => {
+    const provider = nest({color: 'blue'});
+    const consumer = consume();
+    assert.deepEqual(provider.value, {color: 'blue', font: 'serif'});
+    assert.deepEqual(consumer.value, {color: 'blue', font: 'serif'});
+  });
+
+  test('merged value is updated when the parent value changes', () => {
+    nest({color: 'blue'});
+    const consumer = consume();
+    parent.setValue({color: 'green', font: 'mono'});
+    assert.deepEqual(consumer.value, {color: 'blue', font: 'mono'});
+  });
+
+  test('merged value is updated when the local value changes', () => {
+    const provider = nest({color: 'blue'});
+    const consumer = consume();
+    provider.setValue({font: 'sans'});
+    assert.deepEqual(consumer.value, {color: 'red', font: 'sans'});
+  });
+
+  test('local value is provided without parent', () => {
+    parent.dispose();
+    const provider = nest({color: 'blue'});
+    assert.deepEqual(provider.value, {color: 'blue'});
+  });
+
+  test('parent value is dropped when the parent is gone', () => {
+    const provider = nest({color: 'blue'});
+    const consumer = consume();
+    parent.dispose();
+    assert.deepEqual(provider.value, {color: 'blue'});
+    assert.deepEqual(consumer.value, {color: 'blue'});
+  });
+
+  for (const hostType of ['HTMLElement', 'FASTElement']) {
+    test(`existing consumers get the merged value only (${hostType})`, () => {
+      if (hostType === 'FASTElement') {
+        const fastHost = document.createElement(
+          'merging-provider-host'
+        ) as MergingProviderHost;
+        fastHost.appendChild(consumerHost);
+        nestedHost.appendChild(fastHost);
+        nestedHost = fastHost;
+      }
+      const values: Theme[] = [];
+      new ContextConsumer(consumerHost, {
+        context: themeContext,
+        subscribe: true,
+        callback: (value) => {
+          values.push(value);
+        },
+      });
+
+      nest({color: 'blue'});
+      assert.deepEqual(values, [
+        {color: 'red', font: 'serif'},
+        {color: 'blue', font: 'serif'},
+      ]);
+    });
+  }
+
+  test('disposed provider stops following the parent', () => {
+    const provider = nest({color: 'blue'});
+    provider.dispose();
+    parent.setValue({color: 'green', font: 'mono'});
+    assert.deepEqual(provider.value, {color: 'blue', font: 'serif'});
+  });
+});
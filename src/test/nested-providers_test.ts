@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+const DEPTH = 10;
+
+suite('nested providers re-parenting', () => {
+  let container: HTMLElement;
+  let levels: HTMLElement[];
+  let consumers: ContextConsumer<typeof simpleContext>[];
+  let callCounts: number[];
+
+  setup(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    new ContextProvider(container, {context: simpleContext, initialValue: 0});
+
+    // Build a deep tree; each level has a consumer and the next level.
+    levels = [];
+    consumers = [];
+    callCounts = [];
+    let parent: HTMLElement = container;
+    for (let i = 0; i < DEPTH; i++) {
+      const level = document.createElement('div');
+      // Every other level is in a shadow root
+      if (i % 2) {
+        const host = document.createElement('div');
+        parent.appendChild(host);
+        host.attachShadow({mode: 'open'}).appendChild(level);
+      } else {
+        parent.appendChild(level);
+      }
+      const consumerHost = document.createElement('span');
+      level.appendChild(consumerHost);
+
+      callCounts.push(0);
+      consumers.push(
+        new ContextConsumer(consumerHost, {
+          context: simpleContext,
+          subscribe: true,
+          callback: () => {
+            callCounts[i]++;
+          },
+        })
+      );
+      levels.push(level);
+      parent = level;
+    }
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  const values = () => consumers.map((consumer) => consumer.value);
+
+  test('only the consumers within the new provider are re-parented', () => {
+    const middle = DEPTH / 2;
+    new ContextProvider(levels[middle], {
+      context: simpleContext,
+      initialValue: 1,
+    });
+
+    assert.deepEqual(values(), [
+      ...Array(middle).fill(0),
+      ...Array(DEPTH - middle).fill(1),
+    ]);
+    assert.deepEqual(callCounts, [
+      ...Array(middle).fill(1),
+      ...Array(DEPTH - middle).fill(2),
+    ]);
+  });
+
+  test('consumers are re-parented through several providers', () => {
+    const outer = new ContextProvider(levels[2], {
+      context: simpleContext,
+      initialValue: 1,
+    });
+    new ContextProvider(levels[7], {context: simpleContext, initialValue: 2});
+    assert.deepEqual(values(), [0, 0, 1, 1, 1, 1, 1, 2, 2, 2]);
+    assert.deepEqual(callCounts, [1, 1, 2, 2, 2, 2, 2, 3, 3, 3]);
+
+    outer.setValue(10);
+    assert.deepEqual(values(), [0, 0, 10, 10, 10, 10, 10, 2, 2, 2]);
+  });
+
+  test('disconnecting a nested provider re-parents its consumers', () => {
+    const provider = new ContextProvider(levels[5], {
+      context: simpleContext,
+      initialValue: 1,
+    });
+    provider.dispose();
+    assert.deepEqual(values(), Array(DEPTH).fill(0));
+    assert.deepEqual(callCounts, [1, 1, 1, 1, 1, 3, 3, 3, 3, 3]);
+  });
+
+  test('slotted consumers are re-parented to a shadow root provider', () => {
+    const host = container.appendChild(document.createElement('div'));
+    host.attachShadow({mode: 'open'}).innerHTML =
+      '<div id="inner"><slot></slot></div>';
+    const inner = host.shadowRoot!.querySelector('#inner') as HTMLElement;
+    const consumerHost = host.appendChild(document.createElement('span'));
+    const consumer = new ContextConsumer(consumerHost, {
+      context: simpleContext,
+      subscribe: true,
+    });
+    assert.strictEqual(consumer.value, 0);
+
+    new ContextProvider(inner, {context: simpleContext, initialValue: 2});
+    assert.strictEqual(consumer.value, 2);
+    assert.strictEqual(
+      new ContextConsumer(consumerHost, {context: simpleContext}).value,
+      2
+    );
+  });
+});
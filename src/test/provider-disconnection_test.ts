@@ -0,0 +1,150 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {customElement, FASTElement} from '@microsoft/fast-element';
+
+import {
+  ContextConsumer,
+  ContextEvent,
+  ContextProvider,
+  ContextRoot,
+  createContext,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+@customElement('removable-context-provider')
+class RemovableContextProvider extends FASTElement {
+  public provider = new ContextProvider(this, {
+    context: simpleContext,
+    initialValue: 1000,
+  });
+}
+
+suite('provider disconnection', () => {
+  let outer: ContextProvider<typeof simpleContext>;
+  let inner: RemovableContextProvider;
+  let consumerHost: HTMLElement;
+  let container: HTMLElement;
+
+  setup(async () => {
+    container = document.createElement('div');
+    container.innerHTML = `
+       <div id="outer">
+         <removable-context-provider>
+           <div id="consumer"></div>
+         </removable-context-provider>
+       </div>
+     `;
+    document.body.appendChild(container);
+
+    outer = new ContextProvider(
+      container.querySelector('#outer') as HTMLElement,
+      {context: simpleContext, initialValue: 10}
+    );
+    inner = container.querySelector(
+      'removable-context-provider'
+    ) as RemovableContextProvider;
+    consumerHost = container.querySelector('#consumer') as HTMLElement;
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  test('consumer is re-parented to the next provider', async () => {
+    const consumer = new ContextConsumer(consumerHost, {
+      context: simpleContext,
+      subscribe: true,
+    });
+    assert.strictEqual(consumer.value, 1000);
+
+    inner.provider.dispose();
+    assert.strictEqual(consumer.value, 10);
+
+    outer.setValue(20);
+    assert.strictEqual(consumer.value, 20);
+    inner.provider.setValue(2000);
+    assert.strictEqual(consumer.value, 20);
+  });
+
+  test('orphaned consumer is reset and queued in the context root', async () => {
+    outer.dispose();
+    const root = new ContextRoot();
+    root.attach(container);
+
+    const consumer = new ContextConsumer(consumerHost, {
+      context: simpleContext,
+      subscribe: true,
+    });
+    assert.strictEqual(consumer.value, 1000);
+
+    inner.provider.dispose();
+    assert.isUndefined(consumer.value);
+
+    new ContextProvider(container, {context: simpleContext, initialValue: 5});
+    assert.strictEqual(consumer.value, 5);
+    root.detach(container);
+  });
+
+  test('consumer status follows its provider', async () => {
+    outer.dispose();
+    const consumer = new ContextConsumer(consumerHost, {
+      context: simpleContext,
+      subscribe: true,
+    });
+    assert.strictEqual(consumer.status, 'provided');
+    assert.strictEqual(consumer.providerHost, inner);
+
+    inner.provider.dispose();
+    assert.strictEqual(consumer.status, 'orphaned');
+    assert.isNull(consumer.providerHost);
+
+    const provider = new ContextProvider(container, {context: simpleContext});
+    consumer.hostConnected();
+    assert.strictEqual(consumer.status, 'provided');
+    assert.strictEqual(consumer.providerHost, container);
+    assert.isUndefined(consumer.value);
+
+    provider.dispose();
+    assert.strictEqual(consumer.status, 'orphaned');
+  });
+
+  test('consumer status is pending until provided', async () => {
+    outer.dispose();
+    inner.provider.dispose();
+    const consumer = new ContextConsumer(consumerHost, {
+      context: simpleContext,
+    });
+    assert.strictEqual(consumer.status, 'pending');
+    assert.isNull(consumer.providerHost);
+  });
+
+  test('removed consumer is orphaned', async () => {
+    const consumer = new ContextConsumer(consumerHost, {
+      context: simpleContext,
+      subscribe: true,
+    });
+    assert.strictEqual(consumer.value, 1000);
+
+    inner.remove();
+    assert.isUndefined(consumer.value);
+    outer.setValue(20);
+    assert.isUndefined(consumer.value);
+  });
+
+  test('foreign consumer is re-parented by the provider', async () => {
+    const values: number[] = [];
+    consumerHost.dispatchEvent(
+      new ContextEvent(simpleContext, (value) => values.push(value), true)
+    );
+    assert.deepEqual(values, [1000]);
+
+    inner.provider.dispose();
+    assert.deepEqual(values, [1000, 10]);
+  });
+});
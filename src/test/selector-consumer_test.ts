@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {Observable} from '@microsoft/fast-element';
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+interface AppState {
+  user: string;
+  counter: number;
+  tags: string[];
+}
+
+const stateContext = createContext<AppState>('state-context');
+
+suite('selector context consumer', () => {
+  let provider: ContextProvider<typeof stateContext>;
+  let container: HTMLElement;
+  let consumerHost: HTMLElement;
+
+  setup(async () => {
+    container = document.createElement('div');
+    container.innerHTML = '<div id="consumer"></div>';
+    document.body.appendChild(container);
+    provider = new ContextProvider(container, {
+      context: stateContext,
+      initialValue: {user: 'alice', counter: 0, tags: []},
+    });
+    consumerHost = container.querySelector('#consumer') as HTMLElement;
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  test('consumer is updated when the slice changes', async () => {
+    const users: string[] = [];
+    const consumer = new ContextConsumer(consumerHost, {
+      context: stateContext,
+      subscribe: true,
+      select: (state) => state.user,
+      callback: (user) => users.push(user),
+    });
+    let notifications = 0;
+    Observable.getNotifier(consumer).subscribe(
+      {
+        handleChange() {
+          notifications++;
+        },
+      },
+      'value'
+    );
+    assert.strictEqual(consumer.value, 'alice');
+
+    provider.setValue({...provider.value, counter: 1});
+    assert.deepEqual(users, ['alice']);
+    assert.strictEqual(notifications, 0);
+
+    provider.setValue({...provider.value, user: 'bob'});
+    assert.deepEqual(users, ['alice', 'bob']);
+    assert.strictEqual(notifications, 1);
+    assert.strictEqual(consumer.value, 'bob');
+  });
+
+  test('consumer uses the custom equality', async () => {
+    let callCount = 0;
+    const consumer = new ContextConsumer(consumerHost, {
+      context: stateContext,
+      subscribe: true,
+      select: (state) => state.tags,
+      equals: (a, b) =>
+        a.length === b.length && a.every((tag, index) => tag === b[index]),
+      callback: () => {
+        callCount++;
+      },
+    });
+
+    provider.setValue({...provider.value, tags: []});
+    assert.strictEqual(callCount, 1);
+
+    provider.setValue({...provider.value, tags: ['new']});
+    assert.strictEqual(callCount, 2);
+    assert.deepEqual(consumer.value, ['new']);
+  });
+
+  test('consumer without selector is updated on forced updates', async () => {
+    let callCount = 0;
+    new ContextConsumer(consumerHost, {
+      context: stateContext,
+      subscribe: true,
+      callback: () => {
+        callCount++;
+      },
+    });
+
+    provider.value.counter++;
+    provider.setValue(provider.value, true);
+    assert.strictEqual(callCount, 2);
+  });
+});
@@ -1,116 +1,178 @@
-// /**
-//  * @license
-//  * Copyright 2023 Frederic Collonval
-//  * Copyright 2021 Google LLC
-//  * SPDX-License-Identifier: BSD-3-Clause
-//  */
-
-// import {html, FASTElement, nullableNumberConverter, DOM} from '@microsoft/fast-element';
-
-// import {
-//   ContextConsumer,
-//   ContextProvider,
-//   createContext,
-//   consume,
-// } from 'fast-element-context';
-// import {assert} from '@esm-bundle/chai';
-
-// const simpleContext = createContext<number>('simple-context');
-
-// class SimpleContextProvider extends FASTElement {
-//   static definition = {
-//     name: 'simple-context-provider'
-//   };
-
-//   private provider = new ContextProvider(this, {
-//     context: simpleContext,
-//     initialValue: 1000,
-//   });
-
-//   public setValue(value: number) {
-//     this.provider.setValue(value);
-//   }
-// }
-
-// class SimpleContextConsumer extends FASTElement {
-//   static definition = {
-//     name: 'simple-context-consumer',
-//     template: html`${x => x.controllerContext.value}`,
-//     attributes: [
-//       {property: 'onceValue', converter: nullableNumberConverter, mode: 'fromView'},
-//       {property: 'subscribedValue', converter: nullableNumberConverter, mode: 'fromView'},
-//     ]
-//   }
-//   // a one-time property fulfilled by context
-//   @consume({context: simpleContext})
-//   public accessor onceValue = 0;
-
-//   // a subscribed property fulfilled by context
-//   @consume({context: simpleContext, subscribe: true})
-//   public accessor subscribedValue = 0;
-
-//   // just use the controller directly
-//   public controllerContext = new ContextConsumer(this, {
-//     context: simpleContext,
-//     callback: undefined,
-//     subscribe: true,
-//   });
-// }
-
-// FASTElement.define(SimpleContextConsumer)
-// FASTElement.define(SimpleContextProvider)
-
-// suite('context-provider', () => {
-//   let provider: SimpleContextProvider;
-//   let consumer: SimpleContextConsumer;
-
-//   setup(async () => {
-//     const container = document.createElement('div');
-//     container.innerHTML = `
-//        <simple-context-provider>
-//          <simple-context-consumer></simple-context-consumer>
-//        </simple-context-provider>
-//      `;
-//     document.body.appendChild(container);
-
-//     provider = container.querySelector(
-//       'simple-context-provider'
-//     ) as SimpleContextProvider;
-//     assert.isDefined(provider);
-//     consumer = provider.querySelector(
-//       'simple-context-consumer'
-//     ) as SimpleContextConsumer;
-//     assert.isDefined(consumer);
-//   });
-
-//   test(`consumer receives a context`, async () => {
-//     assert.strictEqual(consumer.onceValue, 1000);
-//     assert.strictEqual(consumer.subscribedValue, 1000);
-//     assert.strictEqual(consumer.controllerContext.value, 1000);
-//     DOM.processUpdates();
-//     assert.equal(
-//       consumer.shadowRoot!.innerHTML,
-//       '1000'
-//     );
-//   });
-
-//   test(`consumer receives updated context on provider change`, async () => {
-//     assert.strictEqual(consumer.onceValue, 1000);
-//     assert.strictEqual(consumer.subscribedValue, 1000);
-//     assert.strictEqual(consumer.controllerContext.value, 1000);
-//     DOM.processUpdates();
-//     assert.equal(
-//       (consumer.shadowRoot!.innerHTML),
-//       '1000'
-//     );
-//     provider.setValue(500);
-//     assert.strictEqual(consumer.onceValue, 1000); // once value shouldn't change
-//     assert.strictEqual(consumer.subscribedValue, 500);
-//     assert.strictEqual(consumer.controllerContext.value, 500);
-//     DOM.processUpdates();
-//     assert.equal(
-//       (consumer.shadowRoot!.innerHTML),
-//       '500'
-//     );
-//   });
-// });
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * Copyright 2021 Google LLC
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  html,
+  FASTElement,
+  nullableNumberConverter,
+  DOM,
+} from '@microsoft/fast-element';
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+  consume,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+class SimpleContextProvider extends FASTElement {
+  static definition = {
+    name: 'simple-context-provider',
+  };
+
+  private provider = new ContextProvider(this, {
+    context: simpleContext,
+    initialValue: 1000,
+  });
+
+  public setValue(value: number) {
+    this.provider.setValue(value);
+  }
+}
+
+class SimpleContextConsumer extends FASTElement {
+  static definition = {
+    name: 'simple-context-consumer',
+    template: html`${(x) => x.controllerContext.value}`,
+    attributes: [
+      {
+        property: 'onceValue',
+        converter: nullableNumberConverter,
+        mode: 'fromView',
+      },
+      {
+        property: 'subscribedValue',
+        converter: nullableNumberConverter,
+        mode: 'fromView',
+      },
+    ],
+  };
+  // a one-time property fulfilled by context
+  @consume({context: simpleContext})
+  public accessor onceValue = 0;
+
+  // a subscribed property fulfilled by context
+  @consume({context: simpleContext, subscribe: true})
+  public accessor subscribedValue = 0;
+
+  // just use the controller directly
+  public controllerContext = new ContextConsumer(this, {
+    context: simpleContext,
+    callback: undefined,
+    subscribe: true,
+  });
+}
+
+FASTElement.define(SimpleContextConsumer);
+FASTElement.define(SimpleContextProvider);
+
+suite('context-provider', () => {
+  let provider: SimpleContextProvider;
+  let consumer: SimpleContextConsumer;
+
+  setup(async () => {
+    const container = document.createElement('div');
+    container.innerHTML = `
+       <simple-context-provider>
+         <simple-context-consumer></simple-context-consumer>
+       </simple-context-provider>
+     `;
+    document.body.appendChild(container);
+
+    provider = container.querySelector(
+      'simple-context-provider'
+    ) as SimpleContextProvider;
+    assert.isDefined(provider);
+    consumer = provider.querySelector(
+      'simple-context-consumer'
+    ) as SimpleContextConsumer;
+    assert.isDefined(consumer);
+  });
+
+  test(`consumer receives a context`, async () => {
+    assert.strictEqual(consumer.onceValue, 1000);
+    assert.strictEqual(consumer.subscribedValue, 1000);
+    assert.strictEqual(consumer.controllerContext.value, 1000);
+    DOM.processUpdates();
+    assert.equal(
+      consumer.shadowRoot!.innerHTML.replaceAll(/<!--.*?-->/g, ''),
+      '1000'
+    );
+  });
+
+  test(`consumer receives updated context on provider change`, async () => {
+    assert.strictEqual(consumer.onceValue, 1000);
+    assert.strictEqual(consumer.subscribedValue, 1000);
+    assert.strictEqual(consumer.controllerContext.value, 1000);
+    DOM.processUpdates();
+    assert.equal(
+      consumer.shadowRoot!.innerHTML.replaceAll(/<!--.*?-->/g, ''),
+      '1000'
+    );
+    provider.setValue(500);
+    assert.strictEqual(consumer.onceValue, 1000); // once value shouldn't change
+    assert.strictEqual(consumer.subscribedValue, 500);
+    assert.strictEqual(consumer.controllerContext.value, 500);
+    DOM.processUpdates();
+    assert.equal(
+      consumer.shadowRoot!.innerHTML.replaceAll(/<!--.*?-->/g, ''),
+      '500'
+    );
+  });
+});
+
+class ObservableContextConsumer extends FASTElement {
+  static definition = {
+    name: 'observable-context-consumer',
+    template: html`${(x) => x.value}`,
+  };
+
+  @consume({context: simpleContext, subscribe: true})
+  public accessor value = 0;
+}
+
+FASTElement.define(ObservableContextConsumer);
+
+suite('@consume observable', () => {
+  let provider: SimpleContextProvider;
+  let consumer: ObservableContextConsumer;
+
+  setup(async () => {
+    const container = document.createElement('div');
+    container.innerHTML = `
+       <simple-context-provider>
+         <observable-context-consumer></observable-context-consumer>
+       </simple-context-provider>
+     `;
+    document.body.appendChild(container);
+
+    provider = container.querySelector(
+      'simple-context-provider'
+    ) as SimpleContextProvider;
+    consumer = provider.querySelector(
+      'observable-context-consumer'
+    ) as ObservableContextConsumer;
+  });
+
+  test(`template is updated on provider change`, async () => {
+    DOM.processUpdates();
+    assert.equal(
+      consumer.shadowRoot!.innerHTML.replaceAll(/<!--.*?-->/g, ''),
+      '1000'
+    );
+    provider.setValue(500);
+    assert.strictEqual(consumer.value, 500);
+    DOM.processUpdates();
+    assert.equal(
+      consumer.shadowRoot!.innerHTML.replaceAll(/<!--.*?-->/g, ''),
+      '500'
+    );
+  });
+});
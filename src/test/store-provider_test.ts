@@ -0,0 +1,135 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  ContextConsumer,
+  createContext,
+  Dispatch,
+  StoreProvider,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+type Action = {type: 'increment'} | {type: 'reset'};
+
+const counterContext = createContext<number>('counter-context');
+const dispatchContext = createContext<Dispatch<Action>>('dispatch-context');
+
+const reducer = (state: number, action: Action) => {
+  switch (action.type) {
+    case 'increment':
+      return state + 1;
+    case 'reset':
+      return 0;
+  }
+};
+
+suite('store provider', () => {
+  let container: HTMLElement;
+  let consumerHost: HTMLElement;
+
+  setup(() => {
+    container = document.createElement('div');
+    container.innerHTML = '<div id="consumer"></div>';
+    document.body.appendChild(container);
+    consumerHost = container.querySelector('#consumer') as HTMLElement;
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  test('dispatched actions update the consumers', () => {
+    const store = new StoreProvider(container, {
+      context: counterContext,
+      dispatchContext,
+      reducer,
+      initialState: 0,
+    });
+    let callCount = 0;
+    const consumer = new ContextConsumer(consumerHost, {
+      context: counterContext,
+      subscribe: true,
+      callback: () => {
+        callCount++;
+      },
+    });
+    const dispatcher = new ContextConsumer(consumerHost, {
+      context: dispatchContext,
+    });
+
+    dispatcher.value!({type: 'increment'});
+    dispatcher.value!({type: 'increment'});
+    assert.strictEqual(store.value, 2);
+    assert.strictEqual(consumer.value, 2);
+    assert.strictEqual(callCount, 3);
+
+    store.dispatch({type: 'reset'});
+    assert.strictEqual(consumer.value, 0);
+  });
+
+  test('middleware wraps the dispatch in order', () => {
+    const log: string[] = [];
+    new StoreProvider(container, {
+      context: counterContext,
+      reducer,
+      initialState: 0,
+      middleware: [
+        (store) => (next) => (action) => {
+          log.push(`outer ${action.type} ${store.getState()}`);
+          next(action);
+        },
+        (store) => (next) => (action) => {
+          log.push(`inner ${action.type}`);
+          next(action);
+          log.push(`inner done ${store.getState()}`);
+        },
+      ],
+    }).dispatch({type: 'increment'});
+
+    assert.deepEqual(log, [
+      'outer increment 0',
+      'inner increment',
+      'inner done 1',
+    ]);
+  });
+
+  test('middleware can dispatch asynchronous actions', async () => {
+    const store = new StoreProvider(container, {
+      context: counterContext,
+      reducer,
+      initialState: 0,
+      middleware: [
+        (store) => (next) => (action) => {
+          if (action.type === 'reset') {
+            // Delay the reset and dispatch an increment in the meantime
+            setTimeout(() => next(action));
+            store.dispatch({type: 'increment'});
+          } else {
+            next(action);
+          }
+        },
+      ],
+    });
+
+    store.dispatch({type: 'reset'});
+    assert.strictEqual(store.value, 1);
+    await new Promise((resolve) => setTimeout(resolve));
+    assert.strictEqual(store.value, 0);
+  });
+
+  test('consumer update requests are rejected', () => {
+    const store = new StoreProvider(container, {
+      context: counterContext,
+      reducer,
+      initialState: 0,
+    });
+    const consumer = new ContextConsumer(consumerHost, {
+      context: counterContext,
+    });
+    assert.isFalse(consumer.setValue(3));
+    assert.strictEqual(store.value, 0);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2023 Frederic Collonval
+ * SPDX-License-Identifier: BSD-3-Clause
+ */
+
+import {
+  ContextConsumer,
+  ContextProvider,
+  createContext,
+} from 'fast-element-context';
+import {assert} from '@esm-bundle/chai';
+
+const simpleContext = createContext<number>('simple-context');
+
+suite('two-way context', () => {
+  let container: HTMLElement;
+  let consumerHost: HTMLElement;
+
+  setup(() => {
+    container = document.createElement('div');
+    container.innerHTML = '<div id="consumer"></div>';
+    document.body.appendChild(container);
+    consumerHost = container.querySelector('#consumer') as HTMLElement;
+  });
+
+  teardown(() => {
+    container.remove();
+  });
+
+  const consume = () =>
+    new ContextConsumer(consumerHost, {
+      context: simpleContext,
+      subscribe: true,
+    });
+
+  test('consumer updates the provider value', () => {
+    const provider = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1,
+    });
+    const consumer = consume();
+    const other = consume();
+
+    assert.isTrue(consumer.setValue(2));
+    assert.strictEqual(provider.value, 2);
+    assert.strictEqual(other.value, 2);
+  });
+
+  test('provider policy rejects updates', () => {
+    const requests: [number, Element][] = [];
+    const provider = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1,
+      onUpdateRequest: (value, host) => {
+        requests.push([value, host]);
+        return value > 0;
+      },
+    });
+    const consumer = consume();
+
+    assert.isFalse(consumer.setValue(-1));
+    assert.strictEqual(provider.value, 1);
+    assert.strictEqual(consumer.value, 1);
+    assert.isTrue(consumer.setValue(3));
+    assert.strictEqual(consumer.value, 3);
+    assert.deepEqual(requests, [
+      [-1, consumerHost],
+      [3, consumerHost],
+    ]);
+  });
+
+  test('update is rejected without provider', () => {
+    const consumer = consume();
+    assert.isFalse(consumer.setValue(1));
+  });
+
+  test('closest provider is updated', () => {
+    const outer = new ContextProvider(container, {
+      context: simpleContext,
+      initialValue: 1,
+    });
+    const inner = new ContextProvider(consumerHost, {
+      context: simpleContext,
+      initialValue: 2,
+    });
+    const span = document.createElement('span');
+    consumerHost.appendChild(span);
+    const consumer = new ContextConsumer(span, {context: simpleContext});
+
+    consumer.setValue(3);
+    assert.strictEqual(inner.value, 3);
+    assert.strictEqual(outer.value, 1);
+  });
+});